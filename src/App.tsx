@@ -3,16 +3,75 @@ import { WelcomeScreen } from './components/WelcomeScreen';
 import { WalletDashboard } from './components/WalletDashboard';
 import { UnlockWallet } from './components/UnlockWallet';
 import { DAppConnection } from './components/DAppConnection';
+import { ProviderApproval } from './components/ProviderApproval';
+import { InvalidDAppRequest } from './components/InvalidDAppRequest';
 import { ThemeProvider } from './components/ThemeProvider';
-import { Wallet, DAppConnectionRequest } from './types/wallet';
+import { Wallet, DAppConnectionRequest, ProviderError, ProviderRequest } from './types/wallet';
 import { Toaster } from '@/components/ui/toaster';
+import { getStoredPassword } from './utils/password';
+import { addSessionWallet, getSessionWallets, isSessionActive, removeSessionWallet, lockSession, onSessionLock, watchSessionActivity } from './utils/session';
+import {
+  buildConnectionSuccessUrl,
+  buildDAppCallbackUrl,
+  findConnectedDApp,
+  getConnectedDApps,
+  getDAppTransactionRequest,
+  isDAppOriginRevoked,
+  isDAppTransactionOriginVerified,
+  saveDAppConnection,
+  touchDAppConnection,
+  validateDAppTransactionRequest,
+  DAPP_CONNECTIONS_STORAGE_KEY,
+  DAPP_CONNECTIONS_UPDATED_EVENT
+} from './utils/dapps';
+import { fetchBalance } from './utils/api';
+import { isOctraAddress } from './utils/domain';
+import { validatePayoutAmount } from './utils/payoutFile';
+import { assessOriginRisk, isOriginBlocked, validateConnectionNonce, validateConnectionRequest } from './utils/origin';
+import { signConnectionProof } from './utils/message';
+import { getPaymentUriFromUrl } from './utils/paymentUri';
+import {
+  createProviderError,
+  emitProviderEvent,
+  getProviderContext,
+  startProviderBridge,
+  PROVIDER_ERROR_CODES
+} from './utils/provider';
+
+interface PendingProviderRequest {
+  request: ProviderRequest;
+  resolve: (result: unknown) => void;
+  reject: (error: ProviderError) => void;
+  // Set when the user picked a new account for a request whose connected account is gone
+  wallet?: Wallet;
+}
+
+const DAPP_PERMISSIONS = ['view_address', 'view_balance', 'call_methods'];
+
+// The nonce has already been validated by the connect handler
+function buildConnectResult(wallet: Wallet, origin: string, nonce: unknown) {
+  return {
+    address: wallet.address,
+    publicKey: wallet.publicKey || '',
+    proof: typeof nonce === 'string' ? signConnectionProof(wallet, origin, nonce) : undefined
+  };
+}
 
 function App() {
   const [wallet, setWallet] = useState<Wallet | null>(null);
   const [wallets, setWallets] = useState<Wallet[]>([]);
-  const [isLocked, setIsLocked] = useState(false);
+  // Decrypted wallets only ever live in memory, so a fresh page load always starts locked
+  const [isLocked, setIsLocked] = useState(() => getStoredPassword() !== null);
   const [connectionRequest, setConnectionRequest] = useState<DAppConnectionRequest | null>(null);
+  const [connectionRequestError, setConnectionRequestError] = useState<{ origin: string; error: string } | null>(null);
   const [selectedWalletForConnection, setSelectedWalletForConnection] = useState<Wallet | null>(null);
+  // Set when a dApp opened the wallet as its provider popup
+  const [providerContext] = useState(() => getProviderContext());
+  const [providerRequests, setProviderRequests] = useState<PendingProviderRequest[]>([]);
+  // Set when a connected dApp redirected here with ?request_type=transaction
+  const [transactionRequest] = useState(() => getDAppTransactionRequest(window.location.search, document.referrer));
+  // Set when the wallet was opened from an octra: payment link
+  const [paymentUri, setPaymentUri] = useState(() => getPaymentUriFromUrl(window.location.search));
 
   useEffect(() => {
     // Check for dApp connection request in URL
@@ -21,44 +80,187 @@ function App() {
     const failureUrl = urlParams.get('failure_url');
     const origin = urlParams.get('origin');
     const appName = urlParams.get('app_name');
+    const nonce = urlParams.get('nonce');
     
     if (successUrl && failureUrl && origin) {
-      setConnectionRequest({
+      const request: DAppConnectionRequest = {
         origin: decodeURIComponent(origin),
         successUrl: decodeURIComponent(successUrl),
         failureUrl: decodeURIComponent(failureUrl),
-        permissions: ['view_address', 'view_balance', 'call_methods'],
-        appName: appName ? decodeURIComponent(appName) : undefined
-      });
+        permissions: DAPP_PERMISSIONS,
+        appName: appName ? decodeURIComponent(appName) : undefined,
+        nonce: nonce ?? undefined
+      };
+
+      // A request that fails validation never redirects anywhere, since the callbacks can't be trusted
+      const error = validateConnectionRequest(request);
+      if (error) {
+        setConnectionRequestError({ origin: request.origin, error });
+        return;
+      }
+
+      if (isOriginBlocked(request.origin)) {
+        const url = new URL(request.failureUrl!);
+        url.searchParams.set('error_code', 'origin_blocked');
+        window.location.href = url.toString();
+        return;
+      }
+
+      setConnectionRequest(request);
     }
+  }, []);
 
-    // Check if wallet is locked
-    const walletLocked = localStorage.getItem('isWalletLocked');
-    const hasPassword = localStorage.getItem('walletPasswordHash');
-    
-    if (hasPassword && walletLocked !== 'false') {
-      setIsLocked(true);
+  // Approved origins skip the prompt and revoked ones are turned away, once the wallet is unlocked.
+  // A nonce asks for a signed proof, which always takes a click, preselected on the connected account
+  useEffect(() => {
+    if (!connectionRequest?.successUrl || !connectionRequest.failureUrl || isLocked || wallets.length === 0) return;
+
+    if (isDAppOriginRevoked(connectionRequest.origin)) {
+      const failureUrl = new URL(connectionRequest.failureUrl);
+      failureUrl.searchParams.set('error_code', 'origin_revoked');
+      window.location.href = failureUrl.toString();
       return;
     }
-    const storedWallets = localStorage.getItem('wallets');
-    const activeWalletId = localStorage.getItem('activeWalletId');
-    if (storedWallets) {
-      const parsedWallets = JSON.parse(storedWallets);
-      setWallets(parsedWallets);
-      
-      // Set active wallet based on stored ID or default to first wallet
-      if (parsedWallets.length > 0) {
-        let activeWallet = parsedWallets[0];
-        if (activeWalletId) {
-          const foundWallet = parsedWallets.find((w: Wallet) => w.address === activeWalletId);
-          if (foundWallet) {
-            activeWallet = foundWallet;
+
+    const connection = findConnectedDApp(connectionRequest.origin);
+    const connectedWallet = connection && wallets.find(w => w.address === connection.selectedAddress);
+    if (connectedWallet && connectionRequest.nonce) {
+      setSelectedWalletForConnection(connectedWallet);
+    } else if (connectedWallet) {
+      touchDAppConnection(connectionRequest.origin);
+      window.location.href = buildConnectionSuccessUrl(connectionRequest, connectedWallet);
+    }
+  }, [connectionRequest, isLocked, wallets]);
+
+  useEffect(() => {
+    return onSessionLock(() => {
+      setWallet(null);
+      setWallets([]);
+      setSelectedWalletForConnection(null);
+      setIsLocked(true);
+      if (providerContext) {
+        emitProviderEvent(providerContext, 'lockChanged', { isLocked: true });
+        emitProviderEvent(providerContext, 'accountsChanged', []);
+      }
+    });
+  }, [providerContext]);
+
+  useEffect(() => {
+    if (!providerContext) return;
+    const { origin } = providerContext;
+
+    const requireConnection = () => {
+      const connection = findConnectedDApp(origin);
+      if (!connection) {
+        throw createProviderError(PROVIDER_ERROR_CODES.UNAUTHORIZED, 'Call connect first');
+      }
+      touchDAppConnection(origin);
+      return connection;
+    };
+
+    // Account switches, expiry and revocation from the connections manager reach the dApp as accountsChanged
+    const currentAccounts = () => {
+      const connection = findConnectedDApp(origin);
+      return connection && isSessionActive() ? [connection.selectedAddress] : [];
+    };
+    let lastAccounts = JSON.stringify(currentAccounts());
+    const handleConnectionsChanged = () => {
+      const accounts = currentAccounts();
+      if (JSON.stringify(accounts) !== lastAccounts) {
+        lastAccounts = JSON.stringify(accounts);
+        emitProviderEvent(providerContext, 'accountsChanged', accounts);
+      }
+    };
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === DAPP_CONNECTIONS_STORAGE_KEY) handleConnectionsChanged();
+    };
+    window.addEventListener(DAPP_CONNECTIONS_UPDATED_EVENT, handleConnectionsChanged);
+    window.addEventListener('storage', handleStorage);
+
+    // Requests that need the user are queued and answered from the approval screens
+    const queueForApproval = (request: ProviderRequest) => new Promise((resolve, reject) => {
+      setProviderRequests(prev => [...prev, { request, resolve, reject }]);
+    });
+
+    const stopBridge = startProviderBridge(providerContext, async (request) => {
+      const params = request.params || {};
+
+      switch (request.method) {
+        case 'getAccounts':
+          return currentAccounts();
+        case 'getBalance': {
+          const connection = requireConnection();
+          const { balance, nonce } = await fetchBalance(connection.selectedAddress);
+          return { address: connection.selectedAddress, balance, nonce };
+        }
+        case 'connect': {
+          if (isOriginBlocked(origin) || isDAppOriginRevoked(origin)) {
+            throw createProviderError(PROVIDER_ERROR_CODES.UNAUTHORIZED, 'This site has been blocked in the wallet');
+          }
+          if (params.nonce !== undefined) {
+            const nonceError = typeof params.nonce === 'string' ? validateConnectionNonce(params.nonce) : 'nonce must be a string';
+            if (nonceError) {
+              throw createProviderError(PROVIDER_ERROR_CODES.INVALID_PARAMS, nonceError);
+            }
+          }
+          const connection = findConnectedDApp(origin);
+          const connectedWallet = connection && getSessionWallets().find(w => w.address === connection.selectedAddress);
+          // Signing a connection proof is confirmed every time, even for an approved origin
+          if (connectedWallet && params.nonce !== undefined) {
+            setSelectedWalletForConnection(connectedWallet);
+          } else if (connectedWallet) {
+            touchDAppConnection(origin);
+            return buildConnectResult(connectedWallet, origin, params.nonce);
           }
+          return queueForApproval(request);
         }
-        setWallet(activeWallet);
+        case 'signMessage':
+          requireConnection();
+          if (typeof params.message !== 'string' || !params.message) {
+            throw createProviderError(PROVIDER_ERROR_CODES.INVALID_PARAMS, 'message must be a non-empty string');
+          }
+          return queueForApproval(request);
+        case 'sendTransaction': {
+          requireConnection();
+          const amount = String(params.amount ?? '');
+          if (typeof params.to !== 'string' || !isOctraAddress(params.to)) {
+            throw createProviderError(PROVIDER_ERROR_CODES.INVALID_PARAMS, 'to must be an oct address');
+          }
+          const amountError = validatePayoutAmount(amount);
+          if (amountError) {
+            throw createProviderError(PROVIDER_ERROR_CODES.INVALID_PARAMS, amountError);
+          }
+          if (params.message !== undefined && typeof params.message !== 'string') {
+            throw createProviderError(PROVIDER_ERROR_CODES.INVALID_PARAMS, 'message must be a string');
+          }
+          return queueForApproval({ ...request, params: { ...params, amount: Number(amount) } });
+        }
+        default:
+          throw createProviderError(PROVIDER_ERROR_CODES.UNSUPPORTED_METHOD, `Unsupported method: ${request.method}`);
       }
+    });
+
+    return () => {
+      stopBridge();
+      window.removeEventListener(DAPP_CONNECTIONS_UPDATED_EVENT, handleConnectionsChanged);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [providerContext]);
+
+  // Requests that fail the connection checks go straight back to the dApp with an error code
+  useEffect(() => {
+    if (!transactionRequest || isLocked || wallets.length === 0) return;
+    const { error } = validateDAppTransactionRequest(transactionRequest, wallets);
+    if (error) {
+      window.location.href = buildDAppCallbackUrl(transactionRequest, { error_code: error.code, error_message: error.message });
     }
-  }, []);
+  }, [transactionRequest, isLocked, wallets]);
+
+  // Auto-lock on inactivity or tab hide while unlocked
+  useEffect(() => {
+    if (isLocked || wallets.length === 0) return;
+    return watchSessionActivity();
+  }, [isLocked, wallets.length]);
 
   const handleUnlock = (unlockedWallets: Wallet[]) => {
     setWallets(unlockedWallets);
@@ -76,33 +278,52 @@ function App() {
       }
       setWallet(activeWallet);
     }
+
+    if (providerContext) {
+      const connection = findConnectedDApp(providerContext.origin);
+      emitProviderEvent(providerContext, 'lockChanged', { isLocked: false });
+      emitProviderEvent(providerContext, 'accountsChanged', connection ? [connection.selectedAddress] : []);
+    }
+  };
+
+  const finishProviderRequest = (settle: (pending: PendingProviderRequest) => void) => {
+    const [current] = providerRequests;
+    if (!current) return;
+    settle(current);
+    setProviderRequests(prev => prev.slice(1));
+  };
+
+  const handleProviderConnect = (selectedWallet: Wallet) => {
+    if (!providerContext) return;
+    const params = providerRequests[0]?.request.params || {};
+
+    saveDAppConnection({
+      origin: providerContext.origin,
+      permissions: DAPP_PERMISSIONS,
+      appName: typeof params.appName === 'string' ? params.appName : undefined
+    }, selectedWallet);
+    emitProviderEvent(providerContext, 'accountsChanged', [selectedWallet.address]);
+
+    if (providerRequests[0]?.request.method === 'connect') {
+      finishProviderRequest(({ resolve }) => resolve(buildConnectResult(selectedWallet, providerContext.origin, params.nonce)));
+    } else {
+      // The connected account was removed from this wallet; the pending request continues with the new one
+      setProviderRequests(([current, ...rest]) => current ? [{ ...current, wallet: selectedWallet }, ...rest] : rest);
+    }
   };
 
   const handleConnectionApprove = (selectedWallet: Wallet) => {
-    if (!connectionRequest) return;
+    if (!connectionRequest?.successUrl) return;
     
     // Store connection
-    const connections = JSON.parse(localStorage.getItem('connectedDApps') || '[]');
-    const newConnection = {
-      origin: connectionRequest.origin,
-      appName: connectionRequest.appName || connectionRequest.origin,
-      connectedAt: Date.now(),
-      permissions: connectionRequest.permissions,
-      selectedAddress: selectedWallet.address
-    };
-    connections.push(newConnection);
-    localStorage.setItem('connectedDApps', JSON.stringify(connections));
+    saveDAppConnection(connectionRequest, selectedWallet);
     
     // Redirect to success URL with wallet info
-    const successUrl = new URL(connectionRequest.successUrl);
-    successUrl.searchParams.set('account_id', selectedWallet.address);
-    successUrl.searchParams.set('public_key', selectedWallet.publicKey || '');
-    
-    window.location.href = successUrl.toString();
+    window.location.href = buildConnectionSuccessUrl(connectionRequest, selectedWallet);
   };
 
   const handleConnectionReject = () => {
-    if (!connectionRequest) return;
+    if (!connectionRequest?.failureUrl) return;
     
     // Redirect to failure URL
     window.location.href = connectionRequest.failureUrl;
@@ -118,11 +339,13 @@ function App() {
       return;
     }
     
-    const updatedWallets = [...wallets, newWallet];
-    setWallets(updatedWallets);
+    // Functional update so several wallets added in one go (e.g. discovered HD accounts) all stick
+    setWallets(prev => prev.some(w => w.address === newWallet.address) ? prev : [...prev, newWallet]);
     setWallet(newWallet);
-    localStorage.setItem('wallets', JSON.stringify(updatedWallets));
     localStorage.setItem('activeWalletId', newWallet.address);
+    addSessionWallet(newWallet).catch((error) => {
+      console.error('Failed to store wallet in encrypted vault:', error);
+    });
   };
 
   const switchWallet = (selectedWallet: Wallet) => {
@@ -131,27 +354,31 @@ function App() {
   };
 
   const removeWallet = (walletToRemove: Wallet) => {
-    const updatedWallets = wallets.filter(w => w.address !== walletToRemove.address);
-    setWallets(updatedWallets);
-    localStorage.setItem('wallets', JSON.stringify(updatedWallets));
+    // Functional updates so several removals in a row (e.g. a backup restore in replace mode) compose
+    setWallets(prev => prev.filter(w => w.address !== walletToRemove.address));
+    removeSessionWallet(walletToRemove.address);
     
     // If removing active wallet, switch to another or clear
-    if (wallet?.address === walletToRemove.address) {
-      if (updatedWallets.length > 0) {
-        const newActiveWallet = updatedWallets[0];
-        setWallet(newActiveWallet);
-        localStorage.setItem('activeWalletId', newActiveWallet.address);
-      } else {
-        setWallet(null);
-        localStorage.removeItem('activeWalletId');
+    setWallet(current => {
+      if (current?.address !== walletToRemove.address) return current;
+
+      const remainingWallets = getSessionWallets();
+      if (remainingWallets.length > 0) {
+        localStorage.setItem('activeWalletId', remainingWallets[0].address);
+        return remainingWallets[0];
       }
-    }
+      localStorage.removeItem('activeWalletId');
+      return null;
+    });
+  };
+
+  const lockWallet = () => {
+    lockSession('manual');
   };
 
   const disconnectWallet = () => {
     setWallet(null);
     setWallets([]);
-    localStorage.removeItem('wallets');
     localStorage.removeItem('activeWalletId');
     
     // Reset theme to light when disconnecting
@@ -163,10 +390,38 @@ function App() {
     }));
     
     // Lock wallet
-    localStorage.setItem('isWalletLocked', 'true');
+    lockSession('manual');
     setIsLocked(true);
   };
 
+  const handlePaymentUriHandled = () => {
+    setPaymentUri(null);
+    window.history.replaceState(null, '', window.location.pathname);
+  };
+
+  const dismissConnectionRequestError = () => {
+    setConnectionRequestError(null);
+    window.history.replaceState(null, '', window.location.pathname);
+  };
+
+  const getOriginRisk = (origin: string) => assessOriginRisk(origin, getConnectedDApps().map(d => d.origin));
+
+  // Rejected before unlocking so a malformed request never gets as far as the password prompt
+  if (connectionRequestError) {
+    return (
+      <ThemeProvider defaultTheme="dark" storageKey="octra-wallet-theme">
+        <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+          <InvalidDAppRequest
+            origin={connectionRequestError.origin}
+            error={connectionRequestError.error}
+            onDismiss={dismissConnectionRequestError}
+          />
+          <Toaster />
+        </div>
+      </ThemeProvider>
+    );
+  }
+
   // Show unlock screen if wallet is locked
   if (isLocked) {
     return (
@@ -179,6 +434,84 @@ function App() {
     );
   }
 
+  if (transactionRequest && wallets.length > 0) {
+    const { wallet: requestWallet } = validateDAppTransactionRequest(transactionRequest, wallets);
+
+    return (
+      <ThemeProvider defaultTheme="dark" storageKey="octra-wallet-theme">
+        <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+          {requestWallet && (
+            <ProviderApproval
+              request={{
+                id: transactionRequest.requestId || 'redirect',
+                method: 'sendTransaction',
+                params: { to: transactionRequest.to, amount: Number(transactionRequest.amount), message: transactionRequest.message }
+              }}
+              origin={transactionRequest.origin}
+              originVerified={isDAppTransactionOriginVerified(transactionRequest)}
+              wallet={requestWallet}
+              onResolve={(result) => {
+                const { hash, nonce } = result as { hash: string; nonce: number };
+                touchDAppConnection(transactionRequest.origin);
+                window.location.href = buildDAppCallbackUrl(transactionRequest, { tx_hash: hash, nonce: nonce.toString() });
+              }}
+              onReject={(error) => {
+                window.location.href = buildDAppCallbackUrl(transactionRequest, {
+                  error_code: error.code === PROVIDER_ERROR_CODES.USER_REJECTED ? 'user_rejected' : 'transaction_failed',
+                  error_message: error.message
+                });
+              }}
+            />
+          )}
+          <Toaster />
+        </div>
+      </ThemeProvider>
+    );
+  }
+
+  // Provider requests from the dApp that opened this window come first
+  const pendingProviderRequest = providerRequests[0];
+  if (providerContext && pendingProviderRequest && wallets.length > 0) {
+    const { request } = pendingProviderRequest;
+    const params = request.params || {};
+    const connection = findConnectedDApp(providerContext.origin);
+    const connectedWallet = pendingProviderRequest.wallet
+      ?? (connection && wallets.find(w => w.address === connection.selectedAddress));
+
+    return (
+      <ThemeProvider defaultTheme="dark" storageKey="octra-wallet-theme">
+        <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+          {request.method === 'connect' || !connectedWallet ? (
+            <DAppConnection
+              connectionRequest={{
+                origin: providerContext.origin,
+                permissions: DAPP_PERMISSIONS,
+                appName: typeof params.appName === 'string' ? params.appName : undefined,
+                appIcon: typeof params.appIcon === 'string' ? params.appIcon : undefined
+              }}
+              risk={request.method === 'connect' ? getOriginRisk(providerContext.origin) : undefined}
+              wallets={wallets}
+              selectedWallet={selectedWalletForConnection}
+              onWalletSelect={setSelectedWalletForConnection}
+              onApprove={handleProviderConnect}
+              onReject={() => finishProviderRequest(({ reject }) => reject(createProviderError(PROVIDER_ERROR_CODES.USER_REJECTED, 'User rejected the request')))}
+            />
+          ) : (
+            <ProviderApproval
+              key={request.id}
+              request={request}
+              origin={providerContext.origin}
+              wallet={connectedWallet}
+              onResolve={(result) => finishProviderRequest(({ resolve }) => resolve(result))}
+              onReject={(error) => finishProviderRequest(({ reject }) => reject(error))}
+            />
+          )}
+          <Toaster />
+        </div>
+      </ThemeProvider>
+    );
+  }
+
   // Show dApp connection screen if there's a connection request
   if (connectionRequest && wallets.length > 0) {
     return (
@@ -186,6 +519,7 @@ function App() {
         <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
           <DAppConnection
             connectionRequest={connectionRequest}
+            risk={getOriginRisk(connectionRequest.origin)}
             wallets={wallets}
             selectedWallet={selectedWalletForConnection}
             onWalletSelect={setSelectedWalletForConnection}
@@ -208,9 +542,12 @@ function App() {
             wallet={wallet} 
             wallets={wallets}
             onDisconnect={disconnectWallet}
+            onLock={lockWallet}
             onSwitchWallet={switchWallet}
             onAddWallet={addWallet}
             onRemoveWallet={removeWallet}
+            paymentUri={paymentUri}
+            onPaymentUriHandled={handlePaymentUriHandled}
           />
         )}
         <Toaster />
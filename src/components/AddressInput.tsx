@@ -1,8 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, AlertTriangle, Loader2 } from 'lucide-react';
+import { CheckCircle, AlertTriangle, Loader2, ScanLine } from 'lucide-react';
+import { PaymentRequest } from '../types/wallet';
+import { isDomainName, isOctraAddress, resolveDomain, reverseLookup } from '../utils/domain';
+import { isPaymentUri } from '../utils/paymentUri';
+import { decodeQrFromImage, readScannedRecipient } from '../utils/qr';
 
 interface AddressInputProps {
   value: string;
@@ -11,44 +15,140 @@ interface AddressInputProps {
   disabled?: boolean;
   className?: string;
   onResolvedAddress?: (address: string) => void;
+  // Called instead of onChange when a scanned or pasted payment link carries more than an address
+  onPaymentRequest?: (request: PaymentRequest) => void;
 }
 
 export function AddressInput({ 
   value, 
   onChange, 
-  placeholder = "oct...", 
+  placeholder = "oct... or name.oct", 
   disabled = false,
   className = "",
-  onResolvedAddress
+  onResolvedAddress,
+  onPaymentRequest
 }: AddressInputProps) {
   const [isResolving, setIsResolving] = useState(false);
   const [resolvedAddress, setResolvedAddress] = useState<string | null>(null);
   const [resolutionError, setResolutionError] = useState<string | null>(null);
+  const [resolvedDomain, setResolvedDomain] = useState<string | null>(null);
+  const [reverseName, setReverseName] = useState<string | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Parents often pass inline callbacks; keep the latest one without re-running resolution
+  const onResolvedAddressRef = useRef(onResolvedAddress);
   useEffect(() => {
+    onResolvedAddressRef.current = onResolvedAddress;
+  }, [onResolvedAddress]);
+
+  useEffect(() => {
+    let cancelled = false;
+
     const resolveInput = async () => {
-      if (!value.trim()) {
+      const input = value.trim();
+      // A lookup cancelled by this edit never clears its own spinner
+      setIsResolving(false);
+      setResolvedDomain(null);
+      setReverseName(null);
+
+      if (!input) {
         setResolvedAddress(null);
         setResolutionError(null);
         return;
       }
 
       // If it's already a valid OCT address, no need to resolve
-      if (value.startsWith('oct') && value.length > 40) {
-        setResolvedAddress(value);
+      if (isOctraAddress(input)) {
+        setResolvedAddress(input);
+        setResolutionError(null);
+        onResolvedAddressRef.current?.(input);
+
+        const name = await reverseLookup(input);
+        if (!cancelled) setReverseName(name);
+        return;
+      }
+
+      if (isDomainName(input)) {
+        setIsResolving(true);
+        setResolvedAddress(null);
         setResolutionError(null);
-        onResolvedAddress?.(value);
+        try {
+          const record = await resolveDomain(input);
+          if (cancelled) return;
+
+          if (record) {
+            setResolvedAddress(record.address);
+            setResolvedDomain(record.name);
+            onResolvedAddressRef.current?.(record.address);
+          } else {
+            setResolutionError('Domain not registered');
+            onResolvedAddressRef.current?.('');
+          }
+        } catch (error) {
+          if (cancelled) return;
+          setResolutionError(error instanceof Error ? error.message : 'Domain resolution failed');
+          onResolvedAddressRef.current?.('');
+        } finally {
+          if (!cancelled) setIsResolving(false);
+        }
         return;
       }
 
       setResolvedAddress(null);
       setResolutionError('Invalid address format');
-      onResolvedAddress?.('');
+      onResolvedAddressRef.current?.('');
     };
 
     const timeoutId = setTimeout(resolveInput, 500);
-    return () => clearTimeout(timeoutId);
-  }, [value, onResolvedAddress]);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [value]);
+
+  const applyScannedText = (text: string) => {
+    const { address, paymentRequest } = readScannedRecipient(text);
+    if (paymentRequest && onPaymentRequest) {
+      onPaymentRequest(paymentRequest);
+    } else {
+      onChange(address);
+    }
+  };
+
+  const handleQrImage = async (image: Blob) => {
+    setIsScanning(true);
+    setScanError(null);
+    try {
+      applyScannedText(await decodeQrFromImage(image));
+    } catch (error) {
+      setScanError(error instanceof Error ? error.message : 'Unable to read QR code');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  // Accepts a pasted QR screenshot as well as a pasted payment link
+  const handlePaste = (event: React.ClipboardEvent<HTMLInputElement>) => {
+    const image = Array.from(event.clipboardData.items).find(item => item.type.startsWith('image/'))?.getAsFile();
+    if (image) {
+      event.preventDefault();
+      handleQrImage(image);
+      return;
+    }
+
+    const text = event.clipboardData.getData('text');
+    if (isPaymentUri(text)) {
+      event.preventDefault();
+      setScanError(null);
+      try {
+        applyScannedText(text);
+      } catch (error) {
+        setScanError(error instanceof Error ? error.message : 'Invalid payment link');
+      }
+    }
+  };
 
   const getStatusIcon = () => {
     if (isResolving) {
@@ -73,6 +173,10 @@ export function AddressInput({
       return <Badge variant="secondary" className="text-xs">Resolving...</Badge>;
     }
     
+    if (resolvedAddress && resolvedDomain) {
+      return <Badge variant="default" className="text-xs bg-purple-100 text-purple-800">Domain</Badge>;
+    }
+
     if (resolvedAddress) {
       return <Badge variant="default" className="text-xs bg-blue-100 text-blue-800">Address</Badge>;
     }
@@ -86,18 +190,49 @@ export function AddressInput({
 
   return (
     <div className="space-y-2">
-      <div className="relative">
-        <Input
-          value={value}
-          onChange={(e) => onChange(e.target.value)}
-          placeholder={placeholder}
-          disabled={disabled}
-          className={`pr-10 ${className}`}
-        />
-        <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
-          {getStatusIcon()}
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Input
+            value={value}
+            onChange={(e) => {
+              setScanError(null);
+              onChange(e.target.value);
+            }}
+            onPaste={handlePaste}
+            placeholder={placeholder}
+            disabled={disabled}
+            className={`pr-10 ${className}`}
+          />
+          <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
+            {getStatusIcon()}
+          </div>
         </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || isScanning}
+          title="Scan QR code from image"
+        >
+          {isScanning ? <Loader2 className="h-4 w-4 animate-spin" /> : <ScanLine className="h-4 w-4" />}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleQrImage(file);
+          }}
+        />
       </div>
+
+      {scanError && (
+        <p className="text-xs text-red-600">{scanError}</p>
+      )}
       
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
@@ -105,8 +240,18 @@ export function AddressInput({
           {resolutionError && value.trim() && (
             <span className="text-xs text-red-600">{resolutionError}</span>
           )}
+          {reverseName && !resolvedDomain && (
+            <span className="text-xs text-muted-foreground">{reverseName}</span>
+          )}
         </div>
       </div>
+
+      {resolvedDomain && resolvedAddress && (
+        <div className="p-2 bg-muted rounded-md text-xs">
+          <span className="text-muted-foreground">{resolvedDomain} resolves to </span>
+          <span className="font-mono break-all">{resolvedAddress}</span>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Zap } from 'lucide-react';
+import { Wallet } from '../types/wallet';
+import { getAutoClaimRule, saveAutoClaimRule } from '../utils/claimInbox';
+import { isOctraAddress } from '../utils/domain';
+import { useToast } from '@/hooks/use-toast';
+
+interface AutoClaimRulesProps {
+  wallet: Wallet | null;
+}
+
+export function AutoClaimRules({ wallet }: AutoClaimRulesProps) {
+  const [enabled, setEnabled] = useState(false);
+  const [minAmount, setMinAmount] = useState('');
+  const [trustedSenders, setTrustedSenders] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!wallet) return;
+    const rule = getAutoClaimRule(wallet.address);
+    setEnabled(rule.enabled);
+    setMinAmount(rule.minAmount !== undefined ? rule.minAmount.toString() : '');
+    setTrustedSenders(rule.trustedSenders.join('\n'));
+  }, [wallet]);
+
+  const handleSave = () => {
+    if (!wallet) return;
+
+    const min = minAmount.trim() ? parseFloat(minAmount) : undefined;
+    if (min !== undefined && (isNaN(min) || min < 0)) {
+      toast({
+        title: "Error",
+        description: "Minimum amount must be a positive number",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const senders = trustedSenders.split(/[\s,]+/).filter(Boolean);
+    const invalid = senders.find(s => !isOctraAddress(s));
+    if (invalid) {
+      toast({
+        title: "Error",
+        description: `Not an Octra address: ${invalid}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveAutoClaimRule({ address: wallet.address, enabled, minAmount: min, trustedSenders: [...new Set(senders)] });
+    toast({
+      title: "Auto-Claim Saved",
+      description: enabled ? "Matching transfers will be claimed automatically while the wallet is open" : "Auto-claim is off for this wallet",
+    });
+  };
+
+  if (!wallet) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Zap className="h-5 w-5" />
+          Auto-Claim
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="auto-claim-enabled" className="text-sm">
+            Claim incoming transfers for this wallet automatically
+          </Label>
+          <Switch id="auto-claim-enabled" checked={enabled} onCheckedChange={setEnabled} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="auto-claim-min">Minimum Amount ( OCT, optional )</Label>
+          <Input
+            id="auto-claim-min"
+            placeholder="0.000000"
+            value={minAmount}
+            onChange={(e) => setMinAmount(e.target.value)}
+            disabled={!enabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="auto-claim-senders">Trusted Senders ( optional, one per line )</Label>
+          <Textarea
+            id="auto-claim-senders"
+            placeholder="Leave empty to accept any sender"
+            value={trustedSenders}
+            onChange={(e) => setTrustedSenders(e.target.value)}
+            disabled={!enabled}
+            className="font-mono text-xs"
+            rows={3}
+          />
+        </div>
+        <Button onClick={handleSave} className="w-full">
+          Save Rule
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Timer } from 'lucide-react';
+import { getSessionSettings, saveSessionSettings, SessionSettings } from '../utils/session';
+import { useToast } from '@/hooks/use-toast';
+
+interface AutoLockSettingsProps {
+  onClose?: () => void;
+}
+
+const IDLE_TIMEOUT_OPTIONS = [1, 5, 15, 30, 60, 0];
+
+export function AutoLockSettings({ onClose }: AutoLockSettingsProps) {
+  const [settings, setSettings] = useState<SessionSettings>(getSessionSettings());
+  const { toast } = useToast();
+
+  const handleSave = () => {
+    saveSessionSettings(settings);
+    toast({
+      title: "Settings Saved",
+      description: "Auto-lock settings have been updated",
+    });
+    onClose?.();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Auto-Lock
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Lock after inactivity</Label>
+          <Select
+            value={settings.idleTimeoutMinutes.toString()}
+            onValueChange={(value) => setSettings({ ...settings, idleTimeoutMinutes: parseInt(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {IDLE_TIMEOUT_OPTIONS.map((minutes) => (
+                <SelectItem key={minutes} value={minutes.toString()}>
+                  {minutes === 0 ? 'Never' : `${minutes} minute${minutes !== 1 ? 's' : ''}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <Label htmlFor="lock-on-hide">Lock when tab is hidden</Label>
+            <p className="text-xs text-muted-foreground">
+              Locks as soon as you switch tabs or minimize the browser
+            </p>
+          </div>
+          <Switch
+            id="lock-on-hide"
+            checked={settings.lockOnHide}
+            onCheckedChange={(checked) => setSettings({ ...settings, lockOnHide: checked })}
+          />
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Private keys are kept in memory only. Reloading the page or closing every wallet tab always requires your password again.
+        </p>
+
+        <Button onClick={handleSave} className="w-full">
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,9 +4,10 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Copy, RefreshCw, Wallet, Eye, EyeOff, Lock, Unlock, ArrowUpDown } from 'lucide-react';
+import { Copy, RefreshCw, Wallet, Eye, EyeOff, Lock, Unlock, ArrowUpDown, AlertTriangle, Loader2, ShieldCheck } from 'lucide-react';
 import { Wallet as WalletType } from '../types/wallet';
-import { fetchBalance, fetchEncryptedBalance, encryptBalance, decryptBalance, getPendingPrivateTransfers } from '../utils/api';
+import { fetchBalance, encryptBalance, decryptBalance, getPendingPrivateTransfers } from '../utils/api';
+import { getPrivateBalance, upgradePrivateBalance } from '../utils/privateBalance';
 import { useToast } from '@/hooks/use-toast';
 import { EncryptBalanceDialog } from './EncryptBalanceDialog';
 import { DecryptBalanceDialog } from './DecryptBalanceDialog';
@@ -26,6 +27,7 @@ export function Balance({ wallet, balance, onBalanceUpdate, isLoading = false }:
   const [pendingTransfers, setPendingTransfers] = useState<any[]>([]);
   const [showEncryptDialog, setShowEncryptDialog] = useState(false);
   const [showDecryptDialog, setShowDecryptDialog] = useState(false);
+  const [isUpgrading, setIsUpgrading] = useState(false);
   const { toast } = useToast();
 
   const fetchWalletBalance = async () => {
@@ -37,7 +39,7 @@ export function Balance({ wallet, balance, onBalanceUpdate, isLoading = false }:
       onBalanceUpdate(balanceData.balance);
       
       // Fetch encrypted balance
-      const encData = await fetchEncryptedBalance(wallet.address, wallet.privateKey);
+      const encData = await getPrivateBalance(wallet);
       setEncryptedBalance(encData);
       
       // Fetch pending private transfers
@@ -63,7 +65,7 @@ export function Balance({ wallet, balance, onBalanceUpdate, isLoading = false }:
   // Initial fetch of encrypted balance
   useEffect(() => {
     if (wallet) {
-      fetchEncryptedBalance(wallet.address, wallet.privateKey).then(setEncryptedBalance);
+      getPrivateBalance(wallet).then(setEncryptedBalance);
       getPendingPrivateTransfers(wallet.address, wallet.privateKey).then(setPendingTransfers);
     }
   }, [wallet]);
@@ -94,6 +96,35 @@ export function Balance({ wallet, balance, onBalanceUpdate, isLoading = false }:
     fetchWalletBalance();
   };
 
+  const handleUpgrade = async () => {
+    if (!wallet) return;
+
+    setIsUpgrading(true);
+    try {
+      const result = await upgradePrivateBalance(wallet);
+      if (result.success) {
+        toast({
+          title: "Upgrade Submitted",
+          description: "Your private balance will use the current encryption format once the transaction is confirmed",
+        });
+        fetchWalletBalance();
+      } else {
+        toast({
+          title: "Upgrade Failed",
+          description: result.error || "Unknown error occurred",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsUpgrading(false);
+    }
+  };
+
+  const reportedFigures = [
+    encryptedBalance?.reported_encrypted_raw !== undefined && `${(encryptedBalance.reported_encrypted_raw / 1_000_000).toFixed(8)} OCT private`,
+    encryptedBalance?.reported_total_raw !== undefined && `${(encryptedBalance.reported_total_raw / 1_000_000).toFixed(8)} OCT total`
+  ].filter(Boolean).join(', ');
+
   if (!wallet) {
     return (
       <Alert>
@@ -150,9 +181,22 @@ export function Balance({ wallet, balance, onBalanceUpdate, isLoading = false }:
               <div className="flex items-center gap-2">
                 <Lock className="h-4 w-4 text-yellow-500" />
                 <span className="text-sm font-medium text-muted-foreground">Private Balance</span>
+                {encryptedBalance?.verification === 'verified' && (
+                  <Badge variant="outline" className="text-xs text-green-600 gap-1">
+                    <ShieldCheck className="h-3 w-3" />
+                    Verified locally
+                  </Badge>
+                )}
+                {encryptedBalance && !encryptedBalance.error && (!encryptedBalance.verification || encryptedBalance.verification === 'unverified') && (
+                  <Badge variant="outline" className="text-xs text-muted-foreground">
+                    Reported by node
+                  </Badge>
+                )}
               </div>
               {isLoading ? (
                 <Skeleton className="h-8 w-32" />
+              ) : encryptedBalance?.error ? (
+                <div className="text-2xl font-bold text-red-600">Unreadable</div>
               ) : (
                 <div className="flex items-center gap-x-2">
                   <div className="text-2xl font-bold text-yellow-600">
@@ -163,11 +207,73 @@ export function Balance({ wallet, balance, onBalanceUpdate, isLoading = false }:
                   </Badge>
                 </div>
               )}
+              {encryptedBalance?.pending_count > 0 && (
+                <div className="text-xs text-muted-foreground">
+                  Includes {(encryptedBalance.pending_raw / 1_000_000).toFixed(8)} OCT from {encryptedBalance.pending_count} unconfirmed update{encryptedBalance.pending_count > 1 ? 's' : ''}
+                </div>
+              )}
             </div>
           </div>
 
+          {encryptedBalance?.verification === 'mismatch' && (
+            <Alert variant="destructive">
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <AlertDescription>
+                  Your RPC provider's balances don't match your locally decrypted private balance of {(encryptedBalance.chain_raw / 1_000_000).toFixed(8)} OCT
+                  {reportedFigures && ` (it reported ${reportedFigures})`}. The decrypted amount is shown; consider switching to a provider you trust.
+                </AlertDescription>
+              </div>
+            </Alert>
+          )}
+
+          {encryptedBalance?.diverged && (
+            <Alert>
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <AlertDescription>
+                  Your private balance on chain didn't match the updates this wallet sent, so it has been re-synced from the chain. Check your recent private transactions.
+                </AlertDescription>
+              </div>
+            </Alert>
+          )}
+
+          {encryptedBalance?.error && (
+            <Alert variant="destructive">
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <AlertDescription>
+                  Your private balance could not be decrypted ({encryptedBalance.error}). Encrypting, decrypting and private transfers are disabled so the stored balance isn't overwritten.
+                </AlertDescription>
+              </div>
+            </Alert>
+          )}
+
+          {!encryptedBalance?.error && encryptedBalance?.format === 'v1' && (
+            <Alert>
+              <div className="flex items-start space-x-3">
+                <Lock className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <div className="flex-1 space-y-2">
+                  <AlertDescription>
+                    Your private balance is stored in the legacy v1 format. Upgrade it to re-encrypt the same amount with the current format.
+                  </AlertDescription>
+                  <Button size="sm" variant="outline" onClick={handleUpgrade} disabled={isUpgrading}>
+                    {isUpgrading ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Upgrading...
+                      </>
+                    ) : (
+                      "Upgrade Encryption"
+                    )}
+                  </Button>
+                </div>
+              </div>
+            </Alert>
+          )}
+
           {/* Total Balance */}
-          {encryptedBalance && (
+          {encryptedBalance && !encryptedBalance.error && (
             <div className="pt-5 border-t">
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium text-muted-foreground">Total Balance</span>
@@ -196,7 +302,7 @@ export function Balance({ wallet, balance, onBalanceUpdate, isLoading = false }:
               variant="outline"
               size="sm"
               onClick={() => setShowEncryptDialog(true)}
-              disabled={!balance || balance <= 1}
+              disabled={!balance || balance <= 1 || !!encryptedBalance?.error}
               className="flex items-center gap-2"
             >
               <Lock className="h-4 w-4" />
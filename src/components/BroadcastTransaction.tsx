@@ -0,0 +1,356 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Separator } from '@/components/ui/separator';
+import { Radio, AlertTriangle, CheckCircle, ExternalLink, Copy, FileText, Loader2, ShieldCheck, ScanLine } from 'lucide-react';
+import { Transaction } from '../types/wallet';
+import { fetchBalance, sendTransaction } from '../utils/api';
+import { parseSignedTransaction, verifyTransactionSignature } from '../utils/offline';
+import { decodeQrFromImage } from '../utils/qr';
+import { useToast } from '@/hooks/use-toast';
+
+interface BroadcastTransactionProps {
+  onTransactionSuccess?: () => void;
+}
+
+const MU_FACTOR = 1_000_000;
+
+export function BroadcastTransaction({ onTransactionSuccess }: BroadcastTransactionProps) {
+  const [input, setInput] = useState('');
+  const [transaction, setTransaction] = useState<Transaction | null>(null);
+  const [verification, setVerification] = useState<{ valid: boolean; error?: string } | null>(null);
+  const [accountNonce, setAccountNonce] = useState<number | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isBroadcasting, setIsBroadcasting] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; hash?: string; error?: string } | null>(null);
+  const { toast } = useToast();
+
+  const handleReview = async (content: string = input) => {
+    setTransaction(null);
+    setVerification(null);
+    setAccountNonce(null);
+    setResult(null);
+
+    let parsed: Transaction;
+    try {
+      parsed = parseSignedTransaction(content);
+    } catch (error) {
+      toast({
+        title: "Invalid Signed Transaction",
+        description: error instanceof Error ? error.message : 'Unable to parse input',
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsChecking(true);
+    try {
+      setTransaction(parsed);
+      setVerification(await verifyTransactionSignature(parsed));
+
+      try {
+        const balanceData = await fetchBalance(parsed.from);
+        setAccountNonce(balanceData.nonce);
+      } catch (error) {
+        console.warn('Could not fetch sender nonce:', error);
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const content = await file.text();
+    setInput(content);
+    await handleReview(content);
+    event.target.value = '';
+  };
+
+  // Reads the QR code OfflineSign shows, from a photo, screenshot or pasted image
+  const handleQrImage = async (image: Blob) => {
+    setIsScanning(true);
+    let content: string;
+    try {
+      content = await decodeQrFromImage(image);
+    } catch (error) {
+      toast({
+        title: "QR Code Not Read",
+        description: error instanceof Error ? error.message : 'Unable to read QR code',
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      setIsScanning(false);
+    }
+
+    setInput(content);
+    await handleReview(content);
+  };
+
+  const handleQrUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const image = event.target.files?.[0];
+    event.target.value = '';
+    if (image) {
+      await handleQrImage(image);
+    }
+  };
+
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const image = Array.from(event.clipboardData.items).find(item => item.type.startsWith('image/'))?.getAsFile();
+    if (image) {
+      event.preventDefault();
+      handleQrImage(image);
+    }
+  };
+
+  const handleBroadcast = async () => {
+    if (!transaction || !verification?.valid) return;
+
+    setIsBroadcasting(true);
+    try {
+      const sendResult = await sendTransaction(transaction);
+      setResult(sendResult);
+
+      if (sendResult.success) {
+        toast({
+          title: "Transaction Broadcast!",
+          description: "Signed transaction has been submitted",
+        });
+        onTransactionSuccess?.();
+      } else {
+        toast({
+          title: "Broadcast Failed",
+          description: sendResult.error || "Unknown error occurred",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsBroadcasting(false);
+    }
+  };
+
+  const copyToClipboard = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied!",
+        description: `${label} copied to clipboard`,
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Copy failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const nonceIsStale = transaction && accountNonce !== null && transaction.nonce <= accountNonce;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Radio className="h-5 w-5" />
+          Broadcast Signed Transaction
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Alert>
+          <div className="flex items-start space-x-3">
+            <ShieldCheck className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <AlertDescription>
+              Broadcast a transaction signed on an offline device. No private key is needed here; the signature is checked against the embedded public key before anything is sent.
+            </AlertDescription>
+          </div>
+        </Alert>
+
+        <div className="space-y-2">
+          <Label htmlFor="signed-tx-input">Signed Transaction JSON</Label>
+          <Textarea
+            id="signed-tx-input"
+            placeholder='{"type":"octra-signed-tx", ...}'
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onPaste={handlePaste}
+            rows={5}
+            className="font-mono text-xs"
+          />
+          <div className="flex gap-2">
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileUpload}
+              className="hidden"
+              id="signed-tx-upload"
+            />
+            <Button
+              variant="outline"
+              onClick={() => document.getElementById('signed-tx-upload')?.click()}
+              className="flex-1"
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              Load File
+            </Button>
+            <input
+              type="file"
+              accept="image/*"
+              onChange={handleQrUpload}
+              className="hidden"
+              id="signed-tx-qr-upload"
+            />
+            <Button
+              variant="outline"
+              onClick={() => document.getElementById('signed-tx-qr-upload')?.click()}
+              disabled={isScanning}
+              className="flex-1"
+            >
+              {isScanning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ScanLine className="h-4 w-4 mr-2" />}
+              Scan QR Image
+            </Button>
+            <Button
+              onClick={() => handleReview()}
+              disabled={!input.trim() || isChecking}
+              className="flex-1"
+            >
+              {isChecking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Review
+            </Button>
+          </div>
+        </div>
+
+        {transaction && verification && (
+          <div className="p-3 sm:p-4 bg-muted rounded-md space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              {verification.valid ? (
+                <>
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                  <span className="text-green-700 dark:text-green-400">Signature valid</span>
+                </>
+              ) : (
+                <>
+                  <AlertTriangle className="h-4 w-4 text-red-600" />
+                  <span className="text-red-700 dark:text-red-400">{verification.error}</span>
+                </>
+              )}
+            </div>
+            <Separator />
+            <div className="space-y-1 text-xs sm:text-sm">
+              <div className="flex justify-between items-center gap-2">
+                <span>From:</span>
+                <span className="font-mono break-all text-right">{transaction.from}</span>
+              </div>
+              <div className="flex justify-between items-center gap-2">
+                <span>To:</span>
+                <span className="font-mono break-all text-right">{transaction.to_}</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span>Amount:</span>
+                <span className="font-mono">{(parseInt(transaction.amount) / MU_FACTOR).toFixed(6)} OCT</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span>Fee (OU {transaction.ou}):</span>
+                <span className="font-mono">{transaction.ou === '1' ? '0.001' : '0.003'} OCT</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span>Nonce:</span>
+                <span className="font-mono">
+                  {transaction.nonce}
+                  {accountNonce !== null && ` (account: ${accountNonce})`}
+                </span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span>Signed At:</span>
+                <span className="font-mono">{new Date(transaction.timestamp * 1000).toLocaleString()}</span>
+              </div>
+              {transaction.message && (
+                <div className="flex justify-between items-center gap-2">
+                  <span>Message:</span>
+                  <span className="break-all text-right">{transaction.message}</span>
+                </div>
+              )}
+            </div>
+            {transaction.message && (
+              <div className="text-xs text-muted-foreground">
+                The message is not covered by the signature and could have been altered in transit.
+              </div>
+            )}
+            {nonceIsStale && (
+              <div className="text-red-600 text-xs mt-2 break-words">
+                ⚠️ Nonce has already been used by this account. The node will reject this transaction.
+              </div>
+            )}
+          </div>
+        )}
+
+        {result && (
+          <div className={`rounded-lg p-4 ${result.success ? 'bg-green-50 border border-green-200 dark:bg-green-950/50 dark:border-green-800' : 'bg-red-50 border border-red-200 dark:bg-red-950/50 dark:border-red-800'}`}>
+            <div className="flex items-start space-x-2">
+              {result.success ? (
+                <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400 mr-2 mt-0.5 flex-shrink-0" />
+              ) : (
+                <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400 mr-2 mt-0.5 flex-shrink-0" />
+              )}
+              <div className="flex-1">
+                <p className={`text-sm font-medium ${result.success ? 'text-green-800 dark:text-green-200' : 'text-red-800 dark:text-red-200'}`}>
+                  {result.success ? 'Transaction Broadcast Successfully!' : 'Broadcast Failed'}
+                </p>
+                {result.success && result.hash && (
+                  <div className="flex flex-col sm:flex-row sm:items-center mt-2 space-y-1 sm:space-y-0 sm:space-x-2">
+                    <code className="text-xs bg-green-100 dark:bg-green-900/50 px-2 py-1 rounded font-mono break-all text-green-800 dark:text-green-200 flex-1">
+                      {result.hash}
+                    </code>
+                    <div className="flex space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => copyToClipboard(result.hash!, 'Transaction Hash')}
+                        className="h-6 w-6 p-0"
+                      >
+                        <Copy className="h-3 w-3" />
+                      </Button>
+                      <a
+                        href={`https://octrascan.io/tx/${result.hash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center justify-center h-6 w-6 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 transition-colors"
+                        title="View on OctraScan"
+                      >
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    </div>
+                  </div>
+                )}
+                {result.error && (
+                  <p className="text-red-700 dark:text-red-300 text-sm mt-1 break-words">{result.error}</p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <Button
+          onClick={handleBroadcast}
+          disabled={!transaction || !verification?.valid || isBroadcasting || Boolean(result?.success)}
+          className="w-full"
+          size="lg"
+        >
+          {isBroadcasting ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Broadcasting...
+            </>
+          ) : (
+            'Broadcast Transaction'
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { History } from 'lucide-react';
+import { ClaimLedgerEntry, Wallet } from '../types/wallet';
+import { CLAIM_INBOX_UPDATED_EVENT, CLAIM_LEDGER_STORAGE_KEY, getClaimLedger } from '../utils/claimInbox';
+
+interface ClaimHistoryProps {
+  wallet: Wallet | null;
+}
+
+export function ClaimHistory({ wallet }: ClaimHistoryProps) {
+  const [entries, setEntries] = useState<ClaimLedgerEntry[]>([]);
+
+  // Re-read on local ledger changes and on writes from other tabs
+  useEffect(() => {
+    if (!wallet) return;
+
+    const refresh = () => setEntries(getClaimLedger(wallet.address));
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === CLAIM_LEDGER_STORAGE_KEY) refresh();
+    };
+
+    refresh();
+    window.addEventListener(CLAIM_INBOX_UPDATED_EVENT, refresh);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(CLAIM_INBOX_UPDATED_EVENT, refresh);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [wallet]);
+
+  if (!wallet || entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Claim History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="max-h-80">
+          <div className="space-y-2">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-2 p-3 border rounded-md">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={entry.status === 'claimed' ? 'secondary' : 'destructive'} className="text-xs capitalize">
+                      {entry.status}
+                    </Badge>
+                    {entry.auto && <Badge variant="outline" className="text-xs">Auto</Badge>}
+                    <span className="text-xs text-muted-foreground">Transfer #{entry.transferId}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground font-mono truncate">From: {entry.sender}</div>
+                  {entry.error && (
+                    <div className="text-xs text-red-600 break-words">{entry.error}</div>
+                  )}
+                </div>
+                <div className="text-right space-y-1 flex-shrink-0">
+                  <div className="font-mono text-sm font-bold">
+                    {entry.amountRaw !== null ? `${(entry.amountRaw / 1_000_000).toFixed(8)} OCT` : '[Encrypted]'}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{new Date(entry.at).toLocaleString()}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
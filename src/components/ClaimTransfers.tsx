@@ -5,9 +5,16 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Gift, RefreshCw, Wallet as WalletIcon, CheckCircle, AlertTriangle, Loader2, Package } from 'lucide-react';
-import { Wallet } from '../types/wallet';
-import { getPendingPrivateTransfers, claimPrivateTransfer, fetchEncryptedBalance } from '../utils/api';
-import { deriveSharedSecretForClaim, decryptPrivateAmount } from '../utils/crypto';
+import { ClaimInboxItem, Wallet } from '../types/wallet';
+import {
+  CLAIM_INBOX_STORAGE_KEY,
+  CLAIM_INBOX_UPDATED_EVENT,
+  claimAllInboxTransfers,
+  claimInboxTransfer,
+  getClaimInbox,
+  markClaimInboxRead,
+  refreshClaimInbox
+} from '../utils/claimInbox';
 import { useToast } from '@/hooks/use-toast';
 
 function julianToDate(jd: number): Date {
@@ -22,49 +29,44 @@ interface ClaimTransfersProps {
 }
 
 export function ClaimTransfers({ wallet, onTransactionSuccess }: ClaimTransfersProps) {
-  const [transfers, setTransfers] = useState<any[]>([]);
+  const [transfers, setTransfers] = useState<ClaimInboxItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [claimingId, setClaimingId] = useState<string | null>(null);
   const [claimingAll, setClaimingAll] = useState(false);
   const { toast } = useToast();
 
+  // The background poller keeps the inbox current; this view just follows it and marks it read
+  useEffect(() => {
+    if (!wallet) return;
+
+    const refresh = () => {
+      setTransfers(getClaimInbox(wallet.address));
+      markClaimInboxRead(wallet.address);
+    };
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === CLAIM_INBOX_STORAGE_KEY) refresh();
+    };
+
+    refresh();
+    window.addEventListener(CLAIM_INBOX_UPDATED_EVENT, refresh);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(CLAIM_INBOX_UPDATED_EVENT, refresh);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [wallet]);
+
   const fetchTransfers = async () => {
     if (!wallet) return;
     
     setIsLoading(true);
     try {
-      const pendingTransfers = await getPendingPrivateTransfers(wallet.address, wallet.privateKey);
-      
-      // Decrypt amounts for display
-      const transfersWithAmounts = await Promise.all(
-        pendingTransfers.map(async (transfer) => {
-          let decryptedAmount = null;
-          
-          if (transfer.encrypted_data && transfer.ephemeral_key) {
-            try {
-              const sharedSecret = await deriveSharedSecretForClaim(wallet.privateKey, transfer.ephemeral_key);
-              const amount = await decryptPrivateAmount(transfer.encrypted_data, sharedSecret);
-              if (amount !== null) {
-                decryptedAmount = amount / 1_000_000; // Convert from micro units
-              }
-            } catch (error) {
-              console.error('Failed to decrypt amount for transfer:', transfer.id, error);
-            }
-          }
-          
-          return {
-            ...transfer,
-            decryptedAmount
-          };
-        })
-      );
+      const items = await refreshClaimInbox(wallet);
       
-      setTransfers(transfersWithAmounts);
-      
-      if (transfersWithAmounts.length > 0) {
+      if (items.length > 0) {
         toast({
           title: "Transfers Loaded",
-          description: `Found ${transfersWithAmounts.length} claimable transfers`,
+          description: `Found ${items.length} claimable transfers`,
         });
       }
     } catch (error) {
@@ -79,35 +81,26 @@ export function ClaimTransfers({ wallet, onTransactionSuccess }: ClaimTransfersP
     }
   };
 
-  useEffect(() => {
-    if (wallet) {
-      fetchTransfers();
-    }
-  }, [wallet]);
-
   const handleClaim = async (transferId: string) => {
     if (!wallet) return;
     
     setClaimingId(transferId);
     
     try {
-      const result = await claimPrivateTransfer(wallet.address, wallet.privateKey, transferId);
+      const entry = await claimInboxTransfer(wallet, transferId);
       
-      if (result.success) {
+      if (entry?.status === 'claimed') {
         toast({
           title: "Transfer Claimed!",
-          description: `Successfully claimed ${result.amount || 'transfer'}`,
+          description: `Successfully claimed ${entry.amountRaw !== null ? `${(entry.amountRaw / 1_000_000).toFixed(8)} OCT` : 'transfer'}`,
         });
         
-        // Refresh transfers list
-        await fetchTransfers();
-        
         // Notify parent component
         onTransactionSuccess();
       } else {
         toast({
           title: "Claim Failed",
-          description: result.error || "Unknown error occurred",
+          description: entry?.error || "Transfer not found",
           variant: "destructive",
         });
       }
@@ -129,51 +122,28 @@ export function ClaimTransfers({ wallet, onTransactionSuccess }: ClaimTransfersP
     setClaimingAll(true);
     
     try {
-      let successCount = 0;
-      let totalAmount = 0;
-      const errors: string[] = [];
-      
-      // Process transfers sequentially to avoid overwhelming the server
-      for (const transfer of transfers) {
-        try {
-          const result = await claimPrivateTransfer(wallet.address, wallet.privateKey, transfer.id);
-          
-          if (result.success) {
-            successCount++;
-            if (result.amount) {
-              totalAmount += parseFloat(result.amount);
-            }
-          } else {
-            errors.push(`Transfer ${transfer.id}: ${result.error || 'Unknown error'}`);
-          }
-          
-          // Small delay between claims to be respectful to the server
-          await new Promise(resolve => setTimeout(resolve, 500));
-        } catch (error) {
-          errors.push(`Transfer ${transfer.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-      }
+      const entries = await claimAllInboxTransfers(wallet);
+      const claimed = entries.filter(e => e.status === 'claimed');
+      const failed = entries.filter(e => e.status === 'failed');
+      const totalAmount = claimed.reduce((sum, e) => sum + (e.amountRaw ?? 0), 0) / 1_000_000;
       
       // Show results
-      if (successCount > 0) {
+      if (claimed.length > 0) {
         toast({
           title: "Claim All Completed!",
-          description: `Successfully claimed ${successCount} out of ${transfers.length} transfers${totalAmount > 0 ? ` (Total: ${totalAmount.toFixed(8)} OCT)` : ''}`,
+          description: `Successfully claimed ${claimed.length} out of ${entries.length} transfers${totalAmount > 0 ? ` (Total: ${totalAmount.toFixed(8)} OCT)` : ''}`,
         });
         
-        // Refresh transfers list
-        await fetchTransfers();
-        
         // Notify parent component
         onTransactionSuccess();
       }
       
-      if (errors.length > 0) {
-        console.error('Claim errors:', errors);
-        if (successCount === 0) {
+      if (failed.length > 0) {
+        console.error('Claim errors:', failed);
+        if (claimed.length === 0) {
           toast({
             title: "Claim All Failed",
-            description: `Failed to claim any transfers. First error: ${errors[0]}`,
+            description: `Failed to claim any transfers. First error: Transfer ${failed[0].transferId}: ${failed[0].error || 'Unknown error'}`,
             variant: "destructive",
           });
         }
@@ -291,13 +261,13 @@ export function ClaimTransfers({ wallet, onTransactionSuccess }: ClaimTransfersP
                   
                   <div className="text-right space-y-1">
                     <div className="font-mono font-bold text-green-600">
-                      {transfer.decryptedAmount !== null 
-                        ? `${transfer.decryptedAmount.toFixed(8)} OCT`
+                      {transfer.amountRaw !== null 
+                        ? `${(transfer.amountRaw / 1_000_000).toFixed(8)} OCT`
                         : '[Encrypted]'
                       }
                     </div>
                     <div className="text-xs text-muted-foreground">
-                    {julianToDate(transfer.created_at).toLocaleDateString()}
+                    {julianToDate(Number(transfer.created_at)).toLocaleDateString()}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,270 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Globe, Ban, Trash2, RotateCcw, ShieldCheck, X } from 'lucide-react';
+import { ConnectedDApp, DAppConnectionStatus, OriginAccessList, Wallet } from '../types/wallet';
+import {
+  getConnectedDApps,
+  getDAppConnectionStatus,
+  removeDAppConnection,
+  revokeDAppConnection,
+  setDAppConnectionAccount,
+  setDAppConnectionExpiry,
+  DAPP_CONNECTIONS_STORAGE_KEY,
+  DAPP_CONNECTIONS_UPDATED_EVENT
+} from '../utils/dapps';
+import {
+  getOriginAccessList,
+  setOriginAccess,
+  validateDAppOrigin,
+  ORIGIN_ACCESS_STORAGE_KEY,
+  ORIGIN_ACCESS_UPDATED_EVENT
+} from '../utils/origin';
+import { useToast } from '@/hooks/use-toast';
+
+interface ConnectedDAppsProps {
+  wallets: Wallet[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPIRY_OPTIONS = [0, 1, 7, 30]; // days, 0 = never
+
+const STATUS_VARIANTS: Record<DAppConnectionStatus, 'default' | 'secondary' | 'destructive'> = {
+  active: 'default',
+  expired: 'secondary',
+  revoked: 'destructive'
+};
+
+export function ConnectedDApps({ wallets }: ConnectedDAppsProps) {
+  const [connections, setConnections] = useState<ConnectedDApp[]>([]);
+  const [accessList, setAccessList] = useState<OriginAccessList>({ allowed: [], blocked: [] });
+  const [originInput, setOriginInput] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const refresh = () => setConnections(
+      getConnectedDApps().sort((a, b) => (b.lastUsedAt ?? b.connectedAt) - (a.lastUsedAt ?? a.connectedAt))
+    );
+    const refreshAccessList = () => setAccessList(getOriginAccessList());
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === DAPP_CONNECTIONS_STORAGE_KEY) refresh();
+      if (event.key === ORIGIN_ACCESS_STORAGE_KEY) refreshAccessList();
+    };
+
+    refresh();
+    refreshAccessList();
+    window.addEventListener(DAPP_CONNECTIONS_UPDATED_EVENT, refresh);
+    window.addEventListener(ORIGIN_ACCESS_UPDATED_EVENT, refreshAccessList);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(DAPP_CONNECTIONS_UPDATED_EVENT, refresh);
+      window.removeEventListener(ORIGIN_ACCESS_UPDATED_EVENT, refreshAccessList);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  const handleAddOrigin = (access: 'allowed' | 'blocked') => {
+    const origin = originInput.trim().replace(/\/+$/, '');
+    const error = validateDAppOrigin(origin);
+    if (error) {
+      toast({
+        title: "Invalid Origin",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setOriginAccess(origin, access);
+    if (access === 'blocked') {
+      revokeDAppConnection(origin);
+    }
+    setOriginInput('');
+    toast({
+      title: access === 'blocked' ? "Site Blocked" : "Site Allowed",
+      description: access === 'blocked'
+        ? `${origin} will be denied without asking`
+        : `${origin} will no longer show the first-time warning`,
+    });
+  };
+
+  const handleRevoke = (connection: ConnectedDApp) => {
+    revokeDAppConnection(connection.origin);
+    toast({
+      title: "Connection Revoked",
+      description: `${connection.origin} will be denied until you allow it again`,
+    });
+  };
+
+  const handleExpiryChange = (connection: ConnectedDApp, days: number) => {
+    setDAppConnectionExpiry(connection.origin, days === 0 ? null : Date.now() + days * DAY_MS);
+  };
+
+  const truncateAddress = (address: string) => {
+    return `${address.slice(0, 8)}...${address.slice(-6)}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="h-5 w-5" />
+          Connected Sites
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {connections.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground text-sm">
+            No sites have been connected to this wallet
+          </div>
+        ) : (
+          connections.map((connection) => {
+            const status = getDAppConnectionStatus(connection);
+            const accountKnown = wallets.some(w => w.address === connection.selectedAddress);
+
+            return (
+              <div key={connection.origin} className="p-3 sm:p-4 border rounded-lg space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{connection.appName}</div>
+                    <div className="text-xs text-muted-foreground font-mono break-all">{connection.origin}</div>
+                  </div>
+                  <Badge variant={STATUS_VARIANTS[status]} className="text-xs capitalize">{status}</Badge>
+                </div>
+
+                <div className="flex flex-wrap gap-1">
+                  {connection.permissions.map((permission) => (
+                    <Badge key={permission} variant="outline" className="text-xs">{permission}</Badge>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Account</Label>
+                    <Select
+                      value={connection.selectedAddress}
+                      onValueChange={(address) => setDAppConnectionAccount(connection.origin, address)}
+                      disabled={status === 'revoked'}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {!accountKnown && (
+                          <SelectItem value={connection.selectedAddress}>
+                            {truncateAddress(connection.selectedAddress)} (not in wallet)
+                          </SelectItem>
+                        )}
+                        {wallets.map((w) => (
+                          <SelectItem key={w.address} value={w.address}>
+                            <span className="font-mono">{truncateAddress(w.address)}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Expires</Label>
+                    <Select
+                      value=""
+                      onValueChange={(value) => handleExpiryChange(connection, parseInt(value))}
+                      disabled={status === 'revoked'}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder={connection.expiresAt ? new Date(connection.expiresAt).toLocaleString() : 'Never'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EXPIRY_OPTIONS.map((days) => (
+                          <SelectItem key={days} value={days.toString()}>
+                            {days === 0 ? 'Never' : `In ${days} day${days !== 1 ? 's' : ''}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="text-xs text-muted-foreground">
+                    Connected {new Date(connection.connectedAt).toLocaleDateString()}
+                    {connection.lastUsedAt && ` · Last used ${new Date(connection.lastUsedAt).toLocaleString()}`}
+                  </div>
+                  <div className="flex gap-1">
+                    {status === 'revoked' ? (
+                      <Button variant="outline" size="sm" onClick={() => removeDAppConnection(connection.origin)}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Allow Again
+                      </Button>
+                    ) : (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => handleRevoke(connection)} className="text-red-600 hover:text-red-700">
+                          <Ban className="h-4 w-4 mr-1" />
+                          Revoke
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeDAppConnection(connection.origin)}
+                          className="text-red-500 hover:text-red-700"
+                          title="Disconnect"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div>
+            <h3 className="font-medium flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4" />
+              Site Access List
+            </h3>
+            <p className="text-xs text-muted-foreground">
+              Blocked sites are refused without a prompt. Allowed sites skip the first-time warning.
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              placeholder="https://app.example.com"
+              value={originInput}
+              onChange={(e) => setOriginInput(e.target.value)}
+              className="font-mono"
+            />
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => handleAddOrigin('allowed')} disabled={!originInput.trim()}>
+                Allow
+              </Button>
+              <Button variant="outline" onClick={() => handleAddOrigin('blocked')} disabled={!originInput.trim()} className="text-red-600 hover:text-red-700">
+                Block
+              </Button>
+            </div>
+          </div>
+          {[...accessList.blocked.map(origin => ({ origin, access: 'blocked' as const })), ...accessList.allowed.map(origin => ({ origin, access: 'allowed' as const }))].map(({ origin, access }) => (
+            <div key={origin} className="flex items-center justify-between gap-2 p-2 border rounded-md">
+              <span className="text-xs font-mono break-all">{origin}</span>
+              <div className="flex items-center gap-1">
+                <Badge variant={access === 'blocked' ? 'destructive' : 'secondary'} className="text-xs capitalize">{access}</Badge>
+                <Button variant="ghost" size="sm" onClick={() => setOriginAccess(origin, null)} title="Remove">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,12 +5,13 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
-import { ExternalLink, Shield, Eye, Send, X, Check } from 'lucide-react';
-import { Wallet, DAppConnectionRequest } from '../types/wallet';
+import { ExternalLink, Shield, ShieldAlert, AlertTriangle, Eye, Send, X, Check } from 'lucide-react';
+import { Wallet, DAppConnectionRequest, OriginRisk } from '../types/wallet';
 import { useToast } from '@/hooks/use-toast';
 
 interface DAppConnectionProps {
   connectionRequest: DAppConnectionRequest;
+  risk?: OriginRisk;
   wallets: Wallet[];
   selectedWallet: Wallet | null;
   onWalletSelect: (wallet: Wallet) => void;
@@ -20,6 +21,7 @@ interface DAppConnectionProps {
 
 export function DAppConnection({ 
   connectionRequest, 
+  risk,
   wallets, 
   selectedWallet, 
   onWalletSelect, 
@@ -27,6 +29,7 @@ export function DAppConnection({
   onReject 
 }: DAppConnectionProps) {
   const [isProcessing, setIsProcessing] = useState(false);
+  const [riskAcknowledged, setRiskAcknowledged] = useState(false);
   const { toast } = useToast();
 
   const handleApprove = async () => {
@@ -89,6 +92,80 @@ export function DAppConnection({
     }
   };
 
+  const isSuspicious = !!risk && (!!risk.lookalikeOf || risk.isPunycode);
+
+  // Lookalike, punycode and never-seen origins must be acknowledged before the account picker is shown
+  if (risk && (isSuspicious || risk.isFirstTime) && !riskAcknowledged) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="w-full max-w-md">
+          <Card className={isSuspicious ? 'border-red-500' : 'border-yellow-500'}>
+            <CardHeader className="text-center">
+              <div className="flex justify-center mb-4">
+                <div className={`h-16 w-16 rounded-full flex items-center justify-center ${
+                  isSuspicious ? 'bg-red-100 dark:bg-red-900/30' : 'bg-yellow-100 dark:bg-yellow-900/30'
+                }`}>
+                  <ShieldAlert className={`h-8 w-8 ${isSuspicious ? 'text-red-600' : 'text-yellow-600'}`} />
+                </div>
+              </div>
+              <CardTitle className="text-xl">
+                {isSuspicious ? 'This site may be impersonating another' : 'First connection to this site'}
+              </CardTitle>
+              <p className="text-base font-mono font-medium break-all">
+                {connectionRequest.origin}
+              </p>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+              {risk.lookalikeOf && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    This address looks very similar to <span className="font-mono font-medium">{risk.lookalikeOf}</span>, a site you already trust, but it is a different site.
+                  </AlertDescription>
+                </Alert>
+              )}
+              {risk.isPunycode && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    This address uses international characters (punycode) that can be made to look like a familiar domain.
+                  </AlertDescription>
+                </Alert>
+              )}
+              {risk.isFirstTime && (
+                <Alert>
+                  <Shield className="h-4 w-4" />
+                  <AlertDescription>
+                    You have never connected to this site before. Check the address carefully, letter by letter.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex gap-3">
+                <Button
+                  onClick={handleReject}
+                  disabled={isProcessing}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant={isSuspicious ? 'destructive' : 'outline'}
+                  onClick={() => setRiskAcknowledged(true)}
+                  disabled={isProcessing}
+                  className="flex-1"
+                >
+                  Continue Anyway
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -170,7 +247,7 @@ export function DAppConnection({
                 <div className="flex items-start gap-3 text-muted-foreground">
                   <X className="h-4 w-4 mt-0.5" />
                   <span className="text-sm">
-                    This does not allow the app to transfer tokens
+                    This does not allow the app to transfer tokens without your approval
                   </span>
                 </div>
               </div>
@@ -6,7 +6,7 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Unlock, Loader2, AlertTriangle } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { decryptBalance } from '../utils/api';
+import { decryptPrivateBalance } from '../utils/privateBalance';
 import { useToast } from '@/hooks/use-toast';
 
 interface DecryptBalanceDialogProps {
@@ -52,7 +52,7 @@ export function DecryptBalanceDialog({
     setIsDecrypting(true);
     
     try {
-      const result = await decryptBalance(wallet.address, amountNum, wallet.privateKey);
+      const result = await decryptPrivateBalance(wallet, amountNum);
       
       if (result.success) {
         toast({
@@ -6,7 +6,7 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Lock, Loader2, AlertTriangle } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { encryptBalance } from '../utils/api';
+import { encryptPrivateBalance } from '../utils/privateBalance';
 import { useToast } from '@/hooks/use-toast';
 
 interface EncryptBalanceDialogProps {
@@ -54,7 +54,7 @@ export function EncryptBalanceDialog({
     setIsEncrypting(true);
     
     try {
-      const result = await encryptBalance(wallet.address, amountNum, wallet.privateKey);
+      const result = await encryptPrivateBalance(wallet, amountNum);
       
       if (result.success) {
         toast({
@@ -8,9 +8,11 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Copy, Download, Eye, EyeOff, AlertTriangle, Shield, Key, FileText, Lock } from 'lucide-react';
+import { Copy, Download, Eye, EyeOff, AlertTriangle, Shield, Key, FileText, Lock, Archive } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { verifyPassword } from '../utils/password';
+import { getStoredPassword, verifyStoredPassword } from '../utils/password';
+import { createBackup } from '../utils/backup';
+import { getSessionWallets } from '../utils/session';
 import { useToast } from '@/hooks/use-toast';
 
 interface ExportPrivateKeysProps {
@@ -40,10 +42,7 @@ export function ExportPrivateKeys({ wallet }: ExportPrivateKeysProps) {
     setIsVerifying(true);
 
     try {
-      const hashedPassword = localStorage.getItem('walletPasswordHash');
-      const salt = localStorage.getItem('walletPasswordSalt');
-      
-      if (!hashedPassword || !salt) {
+      if (!getStoredPassword()) {
         toast({
           title: "No Password Set",
           description: "No wallet password found. Please set up password protection first.",
@@ -52,7 +51,7 @@ export function ExportPrivateKeys({ wallet }: ExportPrivateKeysProps) {
         return;
       }
 
-      const isValid = await verifyPassword(password, hashedPassword, salt);
+      const isValid = await verifyStoredPassword(password);
       
       if (isValid) {
         setIsUnlocked(true);
@@ -95,9 +94,9 @@ export function ExportPrivateKeys({ wallet }: ExportPrivateKeysProps) {
     }
   };
 
-  const exportToFile = (content: string, filename: string) => {
+  const exportToFile = (content: string, filename: string, type: string = 'text/plain') => {
     try {
-      const blob = new Blob([content], { type: 'text/plain' });
+      const blob = new Blob([content], { type });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -191,6 +190,21 @@ ${wallet.mnemonic}
     exportToFile(content, `octra-wallet-complete-${wallet.address.slice(0, 8)}.txt`);
   };
 
+  // Every wallet plus address book, RPC providers and dApp connections, encrypted with the wallet password
+  const exportEncryptedBackup = async () => {
+    try {
+      const backup = await createBackup(getSessionWallets(), password);
+      exportToFile(backup, `octra-wallet-backup-${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+    } catch (error) {
+      console.error('Backup error:', error);
+      toast({
+        title: "Export Failed",
+        description: "Failed to create encrypted backup",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleClose = () => {
     setIsOpen(false);
     setPassword('');
@@ -477,6 +491,20 @@ ${wallet.mnemonic}
                           </Button>
                         )}
 
+                        <Button
+                          variant="outline"
+                          onClick={exportEncryptedBackup}
+                          className="flex-1 h-auto p-4"
+                        >
+                          <div className="flex flex-col items-center gap-2">
+                            <Archive className="h-5 w-5" />
+                            <div className="text-center">
+                              <div className="font-medium">Encrypted Backup</div>
+                              <div className="text-xs text-muted-foreground">All wallets, password protected</div>
+                            </div>
+                          </div>
+                        </Button>
+
                         <Button
                           variant="outline"
                           onClick={exportWalletInfo}
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,17 +9,25 @@ import { Badge } from '@/components/ui/badge';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Textarea } from '@/components/ui/textarea';
-import { Upload, FileText, AlertTriangle, Wallet as WalletIcon, CheckCircle, ExternalLink, Copy, Zap, Trash2 } from 'lucide-react';
-import { Wallet } from '../types/wallet';
-import { fetchBalance, sendTransaction, createTransaction } from '../utils/api';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload, FileText, AlertTriangle, Wallet as WalletIcon, CheckCircle, Zap, Trash2 } from 'lucide-react';
+import { PayoutColumnMapping, PayoutFileTable, PayoutJob, Wallet } from '../types/wallet';
+import { fetchBalance } from '../utils/api';
+import { countPayoutRows, createPayoutJob, runPayoutJob } from '../utils/payoutJobs';
+import { findDuplicateRecipients, guessColumnMapping, mapPayoutRows, readPayoutFile, PAYOUT_FILE_EXTENSIONS } from '../utils/payoutFile';
+import { PayoutJobs } from './PayoutJobs';
+import { isDomainName, resolveDomain, findChangedDomainRecords } from '../utils/domain';
 import { useToast } from '@/hooks/use-toast';
 
 interface FileRecipient {
+  row: number;
   address: string;
   resolvedAddress: string;
   amount: string;
+  message?: string;
   isValid: boolean;
   error?: string;
+  warning?: string;
 }
 
 interface FileMultiSendProps {
@@ -38,126 +46,88 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
   const [isDragOver, setIsDragOver] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSending, setIsSending] = useState(false);
-  const [results, setResults] = useState<Array<{ success: boolean; hash?: string; error?: string; recipient: string; amount: string }>>([]);
+  const [fileName, setFileName] = useState('');
+  const [jobName, setJobName] = useState('');
+  const [table, setTable] = useState<PayoutFileTable | null>(null);
+  const [mapping, setMapping] = useState<PayoutColumnMapping | null>(null);
+  // Lookups for the loaded file, so changing the amount or columns doesn't resolve every domain again;
+  // the send still re-checks them with findChangedDomainRecords
+  const domainLookups = useRef(new Map<string, Promise<{ address?: string; error?: string }>>());
+  // Only the latest rebuild may replace the rows
+  const buildCount = useRef(0);
   const { toast } = useToast();
 
-  const validateAddress = (address: string) => {
-    return octAddressRegex.test(address);
-  };
-
   const calculateFee = (amount: number) => {
     return amount < 1000 ? 0.001 : 0.003;
   };
 
-  const copyToClipboard = async (text: string, label: string) => {
-    try {
-      await navigator.clipboard.writeText(text);
-      toast({
-        title: "Copied!",
-        description: `${label} copied to clipboard`,
-      });
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Copy failed",
-        variant: "destructive",
-      });
-    }
-  };
-
-  const parseFileContent = async (content: string): Promise<FileRecipient[]> => {
-    const lines = content.split('\n').filter(line => line.trim());
-    const parsedRecipients: FileRecipient[] = [];
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (!trimmedLine) continue;
-
-      let address = '';
-      let amount = '';
-      let error = '';
-      let isValid = false;
-
-      if (amountMode === 'different') {
-        // Format: address,amount atau address amount
-        const parts = trimmedLine.split(/[,\s]+/);
-        if (parts.length >= 2) {
-          address = parts[0];
-          amount = parts[1];
-        } else {
-          address = parts[0];
-          error = 'Amount missing for different amount mode';
-        }
-      } else {
-        // Format: address only
-        address = trimmedLine;
-        amount = sameAmount;
-      }
-
-      // Validate address format
-      if (validateAddress(address)) {
-        if (!error) {
-          if (amountMode === 'same') {
-            isValid = true;
-          } else {
-            isValid = !!amount && !isNaN(Number(amount)) && Number(amount) > 0;
-          }
-        } else {
-          isValid = false;
-        }
-      } else {
-        error = 'Invalid address format';
-        isValid = false;
-      }
-
-      // Additional validation for different amount mode
-      if (amountMode === 'different' && (!amount || isNaN(Number(amount)) || Number(amount) <= 0)) {
-        error = 'Invalid amount';
-        isValid = false;
-      }
-
-      parsedRecipients.push({
-        address,
-        resolvedAddress: '',
-        amount,
-        isValid,
-        error
-      });
-    }
-
-    return parsedRecipients;
-  };
-
   const resolveAddresses = async (recipients: FileRecipient[]): Promise<FileRecipient[]> => {
     const resolvedRecipients = await Promise.all(
       recipients.map(async (recipient) => {
         if (!recipient.isValid) return recipient;
 
-        try {
-          const resolvedAddress = recipient.address; // No domain resolution needed
-          return {
-            ...recipient,
-            resolvedAddress,
-            isValid: true
-          };
-        } catch (error) {
+        if (!isDomainName(recipient.address)) {
+          return { ...recipient, resolvedAddress: recipient.address };
+        }
+
+        let lookup = domainLookups.current.get(recipient.address);
+        if (!lookup) {
+          lookup = resolveDomain(recipient.address).then(
+            record => record ? { address: record.address } : { error: 'Domain not registered' },
+            error => ({ error: error instanceof Error ? error.message : 'Domain resolution failed' })
+          );
+          domainLookups.current.set(recipient.address, lookup);
+        }
+
+        const { address, error } = await lookup;
+        if (!address) {
           return {
             ...recipient,
             isValid: false,
-            error: `Invalid address format`
+            error
           };
         }
+        return {
+          ...recipient,
+          resolvedAddress: address,
+          isValid: true
+        };
       })
     );
 
     return resolvedRecipients;
   };
 
+  const buildRecipients = async (
+    source: PayoutFileTable,
+    columns: PayoutColumnMapping,
+    mode: 'same' | 'different',
+    amount: string = sameAmount
+  ): Promise<FileRecipient[]> => {
+    const entries = mapPayoutRows(source, columns, mode === 'same' ? amount : undefined);
+    const resolvedRecipients = await resolveAddresses(entries.map(entry => ({
+      row: entry.row,
+      address: entry.address,
+      resolvedAddress: '',
+      amount: entry.amount,
+      message: entry.message,
+      isValid: !entry.error,
+      error: entry.error
+    })));
+
+    // Compared after resolution, so a domain and the address it points to count as the same recipient
+    const duplicates = findDuplicateRecipients(resolvedRecipients.filter(r => r.isValid), r => r.resolvedAddress || r.address);
+    return resolvedRecipients.map(r => duplicates.has(r.row)
+      ? { ...r, warning: `Duplicate recipient, also paid in row ${duplicates.get(r.row)}` }
+      : r
+    );
+  };
+
   const processFile = async (file: File) => {
-    if (!file.name.endsWith('.txt')) {
+    if (!PAYOUT_FILE_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
       toast({
         title: "Invalid File",
-        description: "Please upload a .txt file",
+        description: "Please upload a .txt, .csv, .tsv or .json file",
         variant: "destructive",
       });
       return;
@@ -175,32 +145,38 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
     setIsProcessing(true);
     try {
       const content = await file.text();
-      const parsedRecipients = await parseFileContent(content);
-      
-      if (parsedRecipients.length === 0) {
+      const parsedTable = readPayoutFile(file.name, content);
+
+      if (parsedTable.rows.length === 0) {
         toast({
           title: "Empty File",
-          description: "No valid addresses found in the file",
+          description: "No recipients found in the file",
           variant: "destructive",
         });
         return;
       }
 
-      // Resolve addresses
-      const resolvedRecipients = await resolveAddresses(parsedRecipients);
+      const guessedMapping = guessColumnMapping(parsedTable);
+      domainLookups.current.clear();
+      buildCount.current++;
+      const resolvedRecipients = await buildRecipients(parsedTable, guessedMapping, amountMode);
+      setTable(parsedTable);
+      setMapping(guessedMapping);
       setRecipients(resolvedRecipients);
+      setFileName(file.name);
+      setJobName(file.name.replace(/\.[^.]+$/, ''));
 
       const validCount = resolvedRecipients.filter(r => r.isValid).length;
       const invalidCount = resolvedRecipients.length - validCount;
 
       toast({
         title: "File Processed",
-        description: `Found ${validCount} valid addresses${invalidCount > 0 ? ` and ${invalidCount} invalid entries` : ''}`,
+        description: `Found ${validCount} valid rows${invalidCount > 0 ? ` and ${invalidCount} invalid rows` : ''}`,
       });
     } catch (error) {
       toast({
         title: "File Processing Error",
-        description: "Failed to process the file",
+        description: error instanceof Error ? error.message : "Failed to process the file",
         variant: "destructive",
       });
     } finally {
@@ -208,6 +184,40 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
     }
   };
 
+  const updateMapping = async (
+    changes: Partial<PayoutColumnMapping>,
+    mode: 'same' | 'different' = amountMode,
+    amount: string = sameAmount
+  ) => {
+    if (!table || !mapping) return;
+
+    const nextMapping = { ...mapping, ...changes };
+    const build = ++buildCount.current;
+    setMapping(nextMapping);
+    setIsProcessing(true);
+    try {
+      const rebuilt = await buildRecipients(table, nextMapping, mode, amount);
+      if (build === buildCount.current) {
+        setRecipients(rebuilt);
+      }
+    } finally {
+      if (build === buildCount.current) {
+        setIsProcessing(false);
+      }
+    }
+  };
+
+  const handleAmountModeChange = (value: 'same' | 'different') => {
+    setAmountMode(value);
+    updateMapping({}, value);
+  };
+
+  // The rows carry the amount they were built with, so a new same amount has to rebuild them
+  const handleSameAmountChange = (value: string) => {
+    setSameAmount(value);
+    updateMapping({}, amountMode, value);
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -269,115 +279,61 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
     }
 
     setIsSending(true);
-    setResults([]);
 
     try {
-      // Refresh nonce before sending
-      const freshBalanceData = await fetchBalance(wallet.address);
-      let currentNonce = freshBalanceData.nonce;
-
-      const transactionResults: Array<{ success: boolean; hash?: string; error?: string; recipient: string; amount: string }> = [];
-
-      // Send transactions in batches (batch_size = 5)
-      const batchSize = 5;
-      const batches = [];
-      for (let i = 0; i < validRecipients.length; i += batchSize) {
-        batches.push(validRecipients.slice(i, i + batchSize));
-      }
-
-      for (let batchIdx = 0; batchIdx < batches.length; batchIdx++) {
-        const batch = batches[batchIdx];
-        const batchPromises = [];
-
-        // Prepare all transactions in the batch
-        for (let i = 0; i < batch.length; i++) {
-          const recipient = batch[i];
-          const finalRecipientAddress = recipient.resolvedAddress || recipient.address;
-          const txIndex = batchIdx * batchSize + i;
-          const transactionNonce = currentNonce + 1 + txIndex;
-
-          const transaction = createTransaction(
-            wallet.address,
-            finalRecipientAddress,
-            Number(recipient.amount),
-            transactionNonce,
-            wallet.privateKey,
-            wallet.publicKey || ''
-            // No message for lightning multi send
-          );
-
-          batchPromises.push(
-            sendTransaction(transaction).then(result => ({
-              ...result,
-              recipient: recipient.address,
-              amount: recipient.amount
-            }))
-          );
-        }
-
-        // Send batch concurrently
-        const batchResults = await Promise.allSettled(batchPromises);
-
-        // Process batch results
-        for (let i = 0; i < batchResults.length; i++) {
-          const result = batchResults[i];
-          const recipient = batch[i];
-          
-          if (result.status === 'fulfilled') {
-            transactionResults.push(result.value);
-          } else {
-            transactionResults.push({
-              success: false,
-              error: result.reason?.message || 'Unknown error',
-              recipient: recipient.address,
-              amount: recipient.amount
-            });
-          }
-        }
-
-        // Small delay between batches
-        if (batchIdx < batches.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 50));
-        }
+      // Block the send if any domain now points somewhere other than the previewed address
+      const changedDomains = await findChangedDomainRecords(
+        validRecipients.map(r => ({ name: r.address, address: r.resolvedAddress }))
+      );
+      if (changedDomains.length > 0) {
+        setRecipients(recipients.map(r => changedDomains.includes(r.address)
+          ? { ...r, isValid: false, error: 'Domain record changed since preview' }
+          : r
+        ));
+        toast({
+          title: "Domain Record Changed",
+          description: `${changedDomains.length} domain${changedDomains.length === 1 ? '' : 's'} no longer resolve to the previewed address. Re-upload the file to review.`,
+          variant: "destructive",
+        });
+        return;
       }
 
-      setResults(transactionResults);
-
-      const successCount = transactionResults.filter(r => r.success).length;
-      if (successCount > 0) {
+      // The job persists every row first, so an interrupted payout can be resumed from Payout Jobs
+      const job = createPayoutJob(
+        jobName.trim() || fileName || 'Payout',
+        wallet.address,
+        fileName,
+        validRecipients.map(r => ({
+          row: r.row,
+          recipient: r.address,
+          address: r.resolvedAddress || r.address,
+          amount: Number(r.amount),
+          message: r.message
+        }))
+      );
+      setRecipients([]);
+      setSameAmount('');
+      setJobName('');
+      setTable(null);
+      setMapping(null);
+
+      const result = await runPayoutJob(job.id, wallet);
+      if (result) {
+        const counts = countPayoutRows(result);
         toast({
-          title: "Lightning Multi Send Completed!",
-          description: `${successCount} out of ${transactionResults.length} transactions sent successfully`,
+          title: result.status === 'completed' ? "Lightning Multi Send Completed!" : "Payout Paused",
+          description: `${counts.paid} out of ${result.rows.length} transactions sent${counts.failed > 0 ? `, ${counts.failed} failed` : ''}`,
+          variant: counts.paid === 0 ? "destructive" : "default",
         });
-
-        // Reset form if all successful
-        if (successCount === transactionResults.length) {
-          setRecipients([]);
-          setSameAmount('');
+        if (counts.paid > 0) {
+          handlePayoutFinished(result);
         }
-
-        // Update nonce based on successful transactions
-        const newNonce = currentNonce + successCount;
-        onNonceUpdate(newNonce);
-
-        // Update balance after successful transactions
-        setTimeout(async () => {
-          try {
-            const updatedBalance = await fetchBalance(wallet.address);
-            onBalanceUpdate(updatedBalance.balance);
-            onNonceUpdate(updatedBalance.nonce);
-          } catch (error) {
-            console.error('Failed to refresh balance after transaction:', error);
-          }
-        }, 2000);
-        
-        onTransactionSuccess();
       }
     } catch (error) {
       console.error('File multi-send error:', error);
       toast({
         title: "Error",
-        description: "Send failed",
+        description: "Send interrupted. Resume the job from Payout Jobs.",
         variant: "destructive",
       });
     } finally {
@@ -385,9 +341,30 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
     }
   };
 
+  const handlePayoutFinished = (job: PayoutJob) => {
+    const sentNonces = job.rows.filter(r => r.status === 'sent' && r.nonce !== undefined).map(r => r.nonce!);
+    if (sentNonces.length > 0) {
+      onNonceUpdate(Math.max(...sentNonces));
+    }
+
+    // Update balance after successful transactions
+    setTimeout(async () => {
+      try {
+        const updatedBalance = await fetchBalance(job.from);
+        onBalanceUpdate(updatedBalance.balance);
+        onNonceUpdate(updatedBalance.nonce);
+      } catch (error) {
+        console.error('Failed to refresh balance after transaction:', error);
+      }
+    }, 2000);
+
+    onTransactionSuccess();
+  };
+
   const clearRecipients = () => {
     setRecipients([]);
-    setResults([]);
+    setTable(null);
+    setMapping(null);
   };
 
   if (!wallet) {
@@ -404,6 +381,7 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
   }
 
   const validRecipients = recipients.filter(r => r.isValid);
+  const duplicateCount = validRecipients.filter(r => r.warning).length;
   const totalAmount = validRecipients.reduce((sum, r) => sum + Number(r.amount || 0), 0);
   const totalFees = validRecipients.reduce((sum, r) => sum + calculateFee(Number(r.amount || 0)), 0);
   const totalCost = totalAmount + totalFees;
@@ -423,7 +401,7 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
           <div className="flex items-start space-x-3">
             <Zap className="h-4 w-4 mt-0.5 flex-shrink-0" />
             <AlertDescription>
-              Upload a .txt file with addresses to send OCT quickly. Lightning fast with no messages for maximum speed.
+              Upload a .txt, CSV, TSV or JSON file with addresses to send OCT quickly. Spreadsheet exports with headers can be mapped to address, amount and message columns.
             </AlertDescription>
           </div>
         </Alert>
@@ -431,7 +409,7 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
         {/* Amount Mode Selection */}
         <div className="space-y-4">
           <Label className="text-base font-medium">Amount Mode</Label>
-          <RadioGroup value={amountMode} onValueChange={(value: 'same' | 'different') => setAmountMode(value)}>
+          <RadioGroup value={amountMode} onValueChange={handleAmountModeChange}>
             <div className="flex items-center space-x-2">
               <RadioGroupItem value="same" id="same" />
               <Label htmlFor="same">Same amount for all addresses</Label>
@@ -450,7 +428,7 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
                 type="number"
                 placeholder="0.00000000"
                 value={sameAmount}
-                onChange={(e) => setSameAmount(e.target.value)}
+                onChange={(e) => handleSameAmountChange(e.target.value)}
                 step="0.00000001"
                 min="0"
               />
@@ -460,11 +438,11 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
 
         {/* File Format Instructions */}
         <div className="p-3 bg-muted rounded-md">
-          <div className="text-sm font-medium mb-2">File Format (.txt)</div>
+          <div className="text-sm font-medium mb-2">File Format (.txt, .csv, .tsv, .json)</div>
           <div className="text-xs text-muted-foreground space-y-1">
             {amountMode === 'same' ? (
               <>
-                <div>• One address per line</div>
+                <div>• One address per line, or an address column in CSV/TSV/JSON</div>
                 <div>• Example:</div>
                 <div className="font-mono bg-background p-2 rounded mt-1">
                   oct1234567890abcdef1234567890abcdef12345678<br/>
@@ -474,13 +452,14 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
               </>
             ) : (
               <>
-                <div>• Format: address,amount or address amount</div>
-                <div>• One entry per line</div>
+                <div>• .txt: address,amount or address amount, one entry per line</div>
+                <div>• CSV/TSV with a header row, quoted fields allowed, or a JSON array of objects</div>
+                <div>• Amounts can have at most 6 decimal places</div>
                 <div>• Example:</div>
                 <div className="font-mono bg-background p-2 rounded mt-1">
-                  oct1234567890abcdef1234567890abcdef12345678,1.5<br/>
-                  domain1.oct 2.0<br/>
-                  oct9876543210fedcba9876543210fedcba98765432,0.5
+                  address,amount,memo<br/>
+                  oct1234567890abcdef1234567890abcdef12345678,1.5,"March, week 1"<br/>
+                  domain1.oct,2.0,bonus
                 </div>
               </>
             )}
@@ -501,13 +480,13 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
               <Upload className="h-12 w-12 text-muted-foreground" />
             </div>
             <div>
-              <p className="text-lg font-medium">Drop .txt file containing your octra address here</p>
+              <p className="text-lg font-medium">Drop a payout file containing your octra addresses here</p>
               <p className="text-sm text-muted-foreground">or click to browse</p>
             </div>
             <div>
               <input
                 type="file"
-                accept=".txt"
+                accept={PAYOUT_FILE_EXTENSIONS.join(',')}
                 onChange={handleFileUpload}
                 className="hidden"
                 id="file-upload"
@@ -525,6 +504,64 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
           </div>
         </div>
 
+        {/* Column Mapping */}
+        {table && mapping && table.columns.length > 1 && (
+          <div className="space-y-3">
+            <Label className="text-base font-medium">Column Mapping</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label className="text-xs">Address</Label>
+                <Select value={mapping.address.toString()} onValueChange={(value) => updateMapping({ address: parseInt(value) })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {table.columns.map((column, index) => (
+                      <SelectItem key={index} value={index.toString()}>{column}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {amountMode === 'different' && (
+                <div className="space-y-2">
+                  <Label className="text-xs">Amount</Label>
+                  <Select
+                    value={mapping.amount === null ? 'none' : mapping.amount.toString()}
+                    onValueChange={(value) => updateMapping({ amount: value === 'none' ? null : parseInt(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not mapped</SelectItem>
+                      {table.columns.map((column, index) => (
+                        <SelectItem key={index} value={index.toString()}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label className="text-xs">Message</Label>
+                <Select
+                  value={mapping.message === null ? 'none' : mapping.message.toString()}
+                  onValueChange={(value) => updateMapping({ message: value === 'none' ? null : parseInt(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No message</SelectItem>
+                    {table.columns.map((column, index) => (
+                      <SelectItem key={index} value={index.toString()}>{column}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Recipients List */}
         {recipients.length > 0 && (
           <div className="space-y-4">
@@ -540,11 +577,15 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
             <ScrollArea className="max-h-[calc(90vh-100px)] pr-2">
               <div className="pr-2">
                 <div className="max-h-60 space-y-2">
-                  {recipients.map((recipient, index) => (
+                  {recipients.map((recipient) => (
                     <div
-                      key={index}
+                      key={recipient.row}
                       className={`p-3 rounded-lg border ${
-                        recipient.isValid ? 'border-green-200 bg-green-50 dark:bg-green-950/50' : 'border-red-200 bg-red-50 dark:bg-red-950/50'
+                        !recipient.isValid
+                          ? 'border-red-200 bg-red-50 dark:bg-red-950/50'
+                          : recipient.warning
+                            ? 'border-yellow-200 bg-yellow-50 dark:bg-yellow-950/50'
+                            : 'border-green-200 bg-green-50 dark:bg-green-950/50'
                       }`}
                     >
                       <div className="flex items-center justify-between">
@@ -555,11 +596,18 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
                             ) : (
                               <AlertTriangle className="h-4 w-4 text-red-600" />
                             )}
-                            <span className="font-mono text-sm truncate">{recipient.address}</span>
+                            <span className="text-xs text-muted-foreground flex-shrink-0">Row {recipient.row}</span>
+                            <span className="font-mono text-sm truncate">{recipient.address || '—'}</span>
                           </div>
                           {recipient.error && (
                             <div className="text-xs text-red-600 mt-1">{recipient.error}</div>
                           )}
+                          {recipient.warning && (
+                            <div className="text-xs text-yellow-700 dark:text-yellow-400 mt-1">{recipient.warning}</div>
+                          )}
+                          {recipient.message && (
+                            <div className="text-xs text-muted-foreground mt-1 truncate">Message: {recipient.message}</div>
+                          )}
                           {recipient.resolvedAddress && recipient.resolvedAddress !== recipient.address && (
                             <div className="text-xs text-muted-foreground mt-1">
                               Resolves to: {recipient.resolvedAddress}
@@ -586,75 +634,6 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
           </div>
         )}
 
-        {/* Results */}
-        {results.length > 0 && (
-          <div className="space-y-3">
-            <Label className="text-base font-medium">Transaction Results</Label>
-            {results.map((result, index) => (
-              <div
-                key={index}
-                className={`rounded-lg p-3 sm:p-4 ${result.success ? 'bg-green-50 border border-green-200 dark:bg-green-950/50 dark:border-green-800' : 'bg-red-50 border border-red-200 dark:bg-red-950/50 dark:border-red-800'}`}
-              >
-                <div className="flex items-start space-x-2">
-                  {result.success ? (
-                    <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400 mr-2 mt-0.5 flex-shrink-0" />
-                  ) : (
-                    <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400 mr-2 mt-0.5 flex-shrink-0" />
-                  )}
-                  <div className="flex-1">
-                    <p className={`text-sm font-medium break-words ${result.success ? 'text-green-800 dark:text-green-200' : 'text-red-800 dark:text-red-200'}`}>
-                      {result.success ? 'Success' : 'Failed'}
-                    </p>
-                    <div className="mt-1 space-y-1">
-                      <p className="text-xs text-gray-600 dark:text-gray-400">
-                        <span className="font-medium">To:</span> <span className="font-mono break-all">{result.recipient}</span>
-                      </p>
-                      <p className="text-xs text-gray-600 dark:text-gray-400">
-                        <span className="font-medium">Amount:</span> {result.amount} OCT
-                      </p>
-                      <p className="text-xs text-gray-600 dark:text-gray-400">
-                        <span className="font-medium">Fee:</span> {calculateFee(Number(result.amount) || 0).toFixed(3)} OCT
-                      </p>
-                    </div>
-                    {result.success && result.hash && (
-                      <div className="mt-2">
-                        <p className="text-green-700 dark:text-green-300 text-sm">Transaction Hash:</p>
-                        <div className="flex flex-col sm:flex-row sm:items-center mt-1 space-y-1 sm:space-y-0 sm:space-x-2">
-                          <code className="text-xs bg-green-100 dark:bg-green-900/50 px-2 py-1 rounded font-mono break-all text-green-800 dark:text-green-200 flex-1">
-                            {result.hash}
-                          </code>
-                          <div className="flex space-x-1">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => copyToClipboard(result.hash!, 'Transaction Hash')}
-                              className="h-6 w-6 p-0"
-                            >
-                              <Copy className="h-3 w-3" />
-                            </Button>
-                            <a
-                              href={`https://octrascan.io/tx/${result.hash}`}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="inline-flex items-center justify-center h-6 w-6 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 transition-colors"
-                              title="View on OctraScan"
-                            >
-                              <ExternalLink className="h-3 w-3" />
-                            </a>
-                          </div>
-                        </div>
-                      </div>
-                    )}
-                    {result.error && (
-                      <p className="text-red-700 dark:text-red-300 text-xs mt-1 break-words">{result.error}</p>
-                    )}
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
-        )}
-
         {/* Summary */}
         {validRecipients.length > 0 && (
           <>
@@ -666,6 +645,12 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
                   <span>Valid Recipients:</span>
                   <span>{validRecipients.length}</span>
                 </div>
+                {duplicateCount > 0 && (
+                  <div className="flex justify-between items-center text-yellow-700 dark:text-yellow-400">
+                    <span>Duplicate Recipients:</span>
+                    <span>{duplicateCount}</span>
+                  </div>
+                )}
                 <div className="flex justify-between items-center">
                   <span>Total Amount:</span>
                   <span className="font-mono">{totalAmount.toFixed(8)} OCT</span>
@@ -696,6 +681,16 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="job-name">Job Name</Label>
+              <Input
+                id="job-name"
+                placeholder="e.g. March contributor payouts"
+                value={jobName}
+                onChange={(e) => setJobName(e.target.value)}
+              />
+            </div>
+
             <Button 
               onClick={handleSend}
               disabled={isSending || validRecipients.length === 0 || totalCost > currentBalance}
@@ -706,6 +701,8 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
             </Button>
           </>
         )}
+
+        <PayoutJobs wallet={wallet} onJobFinished={handlePayoutFinished} />
       </CardContent>
     </Card>
   );
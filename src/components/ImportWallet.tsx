@@ -6,16 +6,21 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Key, FileText, AlertTriangle, Loader2 } from 'lucide-react';
+import { Key, FileText, AlertTriangle, Loader2, Archive } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { importWalletFromPrivateKey, importWalletFromMnemonic } from '../utils/wallet';
+import { importWalletFromPrivateKey, scanMnemonicAccounts } from '../utils/wallet';
+import { getSessionWallets } from '../utils/session';
+import { RestoreBackup } from './RestoreBackup';
 import { useToast } from '@/hooks/use-toast';
 
 interface ImportWalletProps {
-  onWalletImported: (wallet: Wallet) => void;
+  // additionalAccounts holds further HD accounts found with on-chain activity when importing a mnemonic
+  onWalletImported: (wallet: Wallet, additionalAccounts?: Wallet[]) => void;
+  // Replaces the default handling so a caller can keep the restore report on screen
+  onBackupRestored?: (walletsToAdd: Wallet[], walletsToRemove: Wallet[]) => void;
 }
 
-export function ImportWallet({ onWalletImported }: ImportWalletProps) {
+export function ImportWallet({ onWalletImported, onBackupRestored }: ImportWalletProps) {
   const [privateKey, setPrivateKey] = useState('');
   const [mnemonic, setMnemonic] = useState('');
   const [isImporting, setIsImporting] = useState(false);
@@ -36,7 +41,7 @@ export function ImportWallet({ onWalletImported }: ImportWalletProps) {
       const wallet = await importWalletFromPrivateKey(privateKey.trim());
       
       // Check if wallet already exists
-      const existingWallets = JSON.parse(localStorage.getItem('wallets') || '[]');
+      const existingWallets = getSessionWallets();
       const walletExists = existingWallets.some((w: Wallet) => w.address === wallet.address);
       
       if (walletExists) {
@@ -76,13 +81,16 @@ export function ImportWallet({ onWalletImported }: ImportWalletProps) {
 
     setIsImporting(true);
     try {
-      const wallet = await importWalletFromMnemonic(mnemonic.trim());
+      // Scan ahead so accounts derived from this phrase elsewhere come back too
+      const { accounts, scanError } = await scanMnemonicAccounts(mnemonic.trim());
       
-      // Check if wallet already exists
-      const existingWallets = JSON.parse(localStorage.getItem('wallets') || '[]');
-      const walletExists = existingWallets.some((w: Wallet) => w.address === wallet.address);
+      // Check which accounts already exist
+      const existingWallets = getSessionWallets();
+      const newAccounts = accounts.filter(
+        (account) => !existingWallets.some((w: Wallet) => w.address === account.address)
+      );
       
-      if (walletExists) {
+      if (newAccounts.length === 0) {
         toast({
           title: "Wallet Already Exists",
           description: "This wallet is already in your collection",
@@ -91,11 +99,21 @@ export function ImportWallet({ onWalletImported }: ImportWalletProps) {
         return;
       }
       
-      onWalletImported(wallet);
+      const [wallet, ...additionalAccounts] = newAccounts;
+      onWalletImported(wallet, additionalAccounts);
       toast({
         title: "Success!",
-        description: "Wallet imported successfully",
+        description: newAccounts.length > 1
+          ? `Wallet imported with ${newAccounts.length} accounts`
+          : "Wallet imported successfully",
       });
+      if (scanError) {
+        toast({
+          title: "Account Scan Incomplete",
+          description: `Could not check every account on this phrase (${scanError}). Some used accounts may be missing; add them with Add Account.`,
+          variant: "destructive",
+        });
+      }
     } catch (error) {
       toast({
         title: "Error",
@@ -107,6 +125,18 @@ export function ImportWallet({ onWalletImported }: ImportWalletProps) {
     }
   };
 
+  const handleBackupRestored = (walletsToAdd: Wallet[], walletsToRemove: Wallet[]) => {
+    if (onBackupRestored) {
+      onBackupRestored(walletsToAdd, walletsToRemove);
+      return;
+    }
+    // Only the first-run screen gets here, and with no wallets yet a restore only ever adds
+    if (walletsToAdd.length > 0) {
+      const [wallet, ...additionalWallets] = walletsToAdd;
+      onWalletImported(wallet, additionalWallets);
+    }
+  };
+
   return (
     <div className="space-y-4">
       <Alert>
@@ -119,7 +149,7 @@ export function ImportWallet({ onWalletImported }: ImportWalletProps) {
       </Alert>
 
       <Tabs defaultValue="private-key" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="private-key" className="flex items-center gap-2">
             <Key className="h-4 w-4" />
             Private Key
@@ -128,6 +158,10 @@ export function ImportWallet({ onWalletImported }: ImportWalletProps) {
             <FileText className="h-4 w-4" />
             Mnemonic
           </TabsTrigger>
+          <TabsTrigger value="backup" className="flex items-center gap-2">
+            <Archive className="h-4 w-4" />
+            Backup
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="private-key" className="space-y-4 mt-6">
@@ -175,7 +209,7 @@ export function ImportWallet({ onWalletImported }: ImportWalletProps) {
                 className="font-mono text-sm"
             />
             <p className="text-sm text-muted-foreground">
-              Enter your mnemonic phrase separated by spaces (12 or 24 words)
+              Enter your mnemonic phrase separated by spaces (12 or 24 words). Accounts derived from it that have been used on-chain are imported as well.
             </p>
           </div>
 
@@ -188,13 +222,17 @@ export function ImportWallet({ onWalletImported }: ImportWalletProps) {
             {isImporting ? (
               <>
                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                Importing...
+                Scanning accounts...
               </>
             ) : (
               "Import Wallet"
             )}
           </Button>
         </TabsContent>
+
+        <TabsContent value="backup" className="mt-6">
+          <RestoreBackup onWalletsRestored={handleBackupRestored} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ShieldAlert, AlertTriangle } from 'lucide-react';
+
+interface InvalidDAppRequestProps {
+  origin: string;
+  error: string;
+  onDismiss: () => void;
+}
+
+export function InvalidDAppRequest({ origin, error, onDismiss }: InvalidDAppRequestProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              <div className="h-16 w-16 bg-red-100 dark:bg-red-900/30 rounded-full flex items-center justify-center">
+                <ShieldAlert className="h-8 w-8 text-red-600" />
+              </div>
+            </div>
+            <CardTitle className="text-xl">Connection Request Blocked</CardTitle>
+            <p className="text-sm text-muted-foreground break-all">{origin}</p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+            <p className="text-sm text-muted-foreground">
+              This request could send your account details to a different site than the one asking for them.
+              Nothing has been shared. If you did not expect this request, close this page.
+            </p>
+            <Button onClick={onDismiss} className="w-full">
+              Go to Wallet
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -7,10 +7,12 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
-import { Users, Plus, Trash2, AlertTriangle, Wallet as WalletIcon, CheckCircle, ExternalLink, Copy, MessageSquare } from 'lucide-react';
-import { Wallet } from '../types/wallet';
-import { fetchBalance, sendTransaction, createTransaction } from '../utils/api';
+import { Users, Plus, Trash2, AlertTriangle, Wallet as WalletIcon, CheckCircle, ExternalLink, Copy, MessageSquare, Link } from 'lucide-react';
+import { PaymentRequest, Wallet } from '../types/wallet';
+import { fetchBalance } from '../utils/api';
+import { submitTransactions } from '../utils/txQueue';
 import { AddressInput } from './AddressInput';
+import { isDomainName, findChangedDomainRecords } from '../utils/domain';
 import { useToast } from '@/hooks/use-toast';
 
 interface Recipient {
@@ -27,16 +29,33 @@ interface MultiSendProps {
   onBalanceUpdate: (balance: number) => void;
   onNonceUpdate: (nonce: number) => void;
   onTransactionSuccess: () => void;
+  paymentRequest?: PaymentRequest | null;
+  onPaymentRequestApplied?: () => void;
 }
 
-export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpdate, onTransactionSuccess }: MultiSendProps) {
+export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpdate, onTransactionSuccess, paymentRequest, onPaymentRequestApplied }: MultiSendProps) {
   const [recipients, setRecipients] = useState<Recipient[]>([
     { address: '', resolvedAddress: '', amount: '', message: '' }
   ]);
   const [isSending, setIsSending] = useState(false);
   const [results, setResults] = useState<Array<{ success: boolean; hash?: string; error?: string; recipient: string; amount: string }>>([]);
+  const [appliedRequest, setAppliedRequest] = useState<PaymentRequest | null>(null);
   const { toast } = useToast();
 
+  // Applied once, so the form can't be refilled after the payment was sent
+  useEffect(() => {
+    if (!paymentRequest) return;
+    setRecipients(paymentRequest.recipients.map(recipient => ({
+      address: recipient.address,
+      resolvedAddress: '',
+      amount: recipient.amount || '',
+      message: recipient.message || ''
+    })));
+    setResults([]);
+    setAppliedRequest(paymentRequest);
+    onPaymentRequestApplied?.();
+  }, [paymentRequest, onPaymentRequestApplied]);
+
   const addRecipient = () => {
     setRecipients([...recipients, { address: '', resolvedAddress: '', amount: '', message: '' }]);
   };
@@ -80,6 +99,9 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
       if (!finalAddress || !recipient.amount) {
         return false;
       }
+      if (isDomainName(recipient.address) && !recipient.resolvedAddress) {
+        return false;
+      }
       if (isNaN(Number(recipient.amount)) || Number(recipient.amount) <= 0) {
         return false;
       }
@@ -154,75 +176,35 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
     setResults([]);
 
     try {
-      // Refresh nonce before sending like CLI does
-      const freshBalanceData = await fetchBalance(wallet.address);
-      let currentNonce = freshBalanceData.nonce;
-
       const validRecipients = recipients.filter(r => (r.resolvedAddress || r.address) && Number(r.amount) > 0);
-      const transactionResults: Array<{ success: boolean; hash?: string; error?: string; recipient: string; amount: string }> = [];
 
-      // Send transactions in batches like CLI does (batch_size = 5)
-      const batchSize = 5;
-      const batches = [];
-      for (let i = 0; i < validRecipients.length; i += batchSize) {
-        batches.push(validRecipients.slice(i, i + batchSize));
+      // Block the send if any domain now points somewhere other than the previewed address
+      const changedDomains = await findChangedDomainRecords(
+        validRecipients.map(r => ({ name: r.address, address: r.resolvedAddress }))
+      );
+      if (changedDomains.length > 0) {
+        toast({
+          title: "Domain Record Changed",
+          description: `${changedDomains.join(', ')} no longer resolve${changedDomains.length === 1 ? 's' : ''} to the previewed address. Review the recipients and try again.`,
+          variant: "destructive",
+        });
+        return;
       }
 
-      for (let batchIdx = 0; batchIdx < batches.length; batchIdx++) {
-        const batch = batches[batchIdx];
-        const batchPromises = [];
-
-        // Prepare all transactions in the batch
-        for (let i = 0; i < batch.length; i++) {
-          const recipient = batch[i];
-          const finalRecipientAddress = recipient.resolvedAddress || recipient.address;
-          const txIndex = batchIdx * batchSize + i;
-          const transactionNonce = currentNonce + 1 + txIndex;
-
-          const transaction = createTransaction(
-            wallet.address,
-            finalRecipientAddress,
-            Number(recipient.amount),
-            transactionNonce,
-            wallet.privateKey,
-            wallet.publicKey || '',
-            recipient.message || undefined // Pass individual message if provided
-          );
-
-          batchPromises.push(
-            sendTransaction(transaction).then(result => ({
-              ...result,
-              recipient: recipient.address,
-              amount: recipient.amount
-            }))
-          );
-        }
-
-        // Send batch concurrently like CLI
-        const batchResults = await Promise.allSettled(batchPromises);
-
-        // Process batch results
-        for (let i = 0; i < batchResults.length; i++) {
-          const result = batchResults[i];
-          const recipient = batch[i];
-          
-          if (result.status === 'fulfilled') {
-            transactionResults.push(result.value);
-          } else {
-            transactionResults.push({
-              success: false,
-              error: result.reason?.message || 'Unknown error',
-              recipient: recipient.address,
-              amount: recipient.amount
-            });
-          }
-        }
-
-        // Small delay between batches like CLI (0.05s)
-        if (batchIdx < batches.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 50));
-        }
-      }
+      // The queue allocates consecutive nonces and broadcasts in batches of five like the CLI
+      const entries = await submitTransactions(wallet, validRecipients.map(r => ({
+        to: r.resolvedAddress || r.address,
+        amount: Number(r.amount),
+        message: r.message || undefined
+      })));
+
+      const transactionResults = entries.map((entry, i) => ({
+        success: entry.status === 'pending',
+        hash: entry.hash,
+        error: entry.error,
+        recipient: validRecipients[i].address,
+        amount: validRecipients[i].amount
+      }));
 
       setResults(transactionResults);
 
@@ -236,11 +218,11 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
         // Reset form if all successful
         if (successCount === transactionResults.length) {
           setRecipients([{ address: '', resolvedAddress: '', amount: '', message: '' }]);
+          setAppliedRequest(null);
         }
 
         // Update nonce based on successful transactions
-        const newNonce = currentNonce + successCount;
-        onNonceUpdate(newNonce);
+        onNonceUpdate(Math.max(...entries.filter(e => e.status === 'pending').map(e => e.nonce)));
 
         // Update balance after successful transactions
         // Wait a bit for the balance to potentially update on the server
@@ -307,6 +289,17 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
           </div>
         </Alert>
 
+        {appliedRequest && (
+          <Alert>
+            <div className="flex items-start space-x-3">
+              <Link className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <AlertDescription>
+                {appliedRequest.recipients.length} recipients filled in from a payment link{appliedRequest.label ? ` by "${appliedRequest.label}"` : ''}. Review every row before sending.
+              </AlertDescription>
+            </div>
+          </Alert>
+        )}
+
         {/* Wallet Info */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-2">
@@ -362,7 +355,7 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
                       value={recipient.address}
                       onChange={(value) => updateRecipient(index, 'address', value)}
                       onResolvedAddress={(resolved) => updateResolvedAddress(index, resolved)}
-                      placeholder="oct..."
+                      placeholder="oct... or name.oct"
                     />
                   </div>
 
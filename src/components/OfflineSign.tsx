@@ -0,0 +1,309 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { PenLine, AlertTriangle, Wallet as WalletIcon, Copy, Download, WifiOff, Wifi } from 'lucide-react';
+import { Wallet } from '../types/wallet';
+import { createTransaction } from '../utils/api';
+import { exportSignedTransaction } from '../utils/offline';
+import { isOctraAddress } from '../utils/domain';
+import { renderQrDataUrl } from '../utils/qr';
+import { useToast } from '@/hooks/use-toast';
+
+interface OfflineSignProps {
+  wallet: Wallet | null;
+}
+
+export function OfflineSign({ wallet }: OfflineSignProps) {
+  const [recipientAddress, setRecipientAddress] = useState('');
+  const [amount, setAmount] = useState('');
+  const [nonce, setNonce] = useState('');
+  const [message, setMessage] = useState('');
+  const [signedJson, setSignedJson] = useState('');
+  const [qrDataUrl, setQrDataUrl] = useState('');
+  const [qrError, setQrError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const updateOnlineStatus = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnlineStatus);
+    window.addEventListener('offline', updateOnlineStatus);
+    return () => {
+      window.removeEventListener('online', updateOnlineStatus);
+      window.removeEventListener('offline', updateOnlineStatus);
+    };
+  }, []);
+
+  const validateAmount = (amountStr: string) => {
+    const num = parseFloat(amountStr);
+    return !isNaN(num) && num > 0;
+  };
+
+  const validateNonce = (nonceStr: string) => {
+    return /^\d+$/.test(nonceStr) && parseInt(nonceStr) > 0;
+  };
+
+  const handleSign = async () => {
+    if (!wallet) return;
+
+    if (!isOctraAddress(recipientAddress)) {
+      toast({
+        title: "Error",
+        description: "Invalid recipient address. Domain names cannot be resolved offline.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!validateAmount(amount) || !validateNonce(nonce)) {
+      toast({
+        title: "Error",
+        description: "Invalid amount or nonce",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let json: string;
+    try {
+      const transaction = createTransaction(
+        wallet.address,
+        recipientAddress,
+        parseFloat(amount),
+        parseInt(nonce),
+        wallet.privateKey,
+        wallet.publicKey || '',
+        message || undefined
+      );
+
+      json = exportSignedTransaction(transaction);
+      setSignedJson(json);
+    } catch (error) {
+      console.error('Offline signing error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to sign transaction",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Transaction Signed",
+      description: "Transfer the signed transaction to a networked device to broadcast it",
+    });
+
+    // The signed JSON stays usable even when it doesn't fit in a QR code, e.g. with a long message
+    setQrDataUrl('');
+    setQrError(null);
+    try {
+      setQrDataUrl(await renderQrDataUrl(json));
+    } catch (error) {
+      console.error('Offline QR rendering error:', error);
+      setQrError('Signed transaction is too large for a QR code. Copy or download the JSON instead, or shorten the message.');
+    }
+  };
+
+  const copyToClipboard = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied!",
+        description: `${label} copied to clipboard`,
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Copy failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const downloadSignedTransaction = () => {
+    const blob = new Blob([signedJson], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `octra-signed-tx-${nonce}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const resetForm = () => {
+    setRecipientAddress('');
+    setAmount('');
+    setNonce('');
+    setMessage('');
+    setSignedJson('');
+    setQrDataUrl('');
+    setQrError(null);
+  };
+
+  if (!wallet) {
+    return (
+      <Alert>
+        <div className="flex items-start space-x-3">
+          <WalletIcon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <AlertDescription>
+            No wallet available. Please generate or import a wallet first.
+          </AlertDescription>
+        </div>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PenLine className="h-5 w-5" />
+          Sign Offline
+          {isOnline ? (
+            <Badge variant="destructive" className="text-xs flex items-center gap-1">
+              <Wifi className="h-3 w-3" />
+              Online
+            </Badge>
+          ) : (
+            <Badge variant="secondary" className="text-xs flex items-center gap-1">
+              <WifiOff className="h-3 w-3" />
+              Offline
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Alert>
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <AlertDescription>
+              {isOnline
+                ? 'This device is connected to the network. For high-value keys, sign on an air-gapped device instead.'
+                : 'Signing on an offline device. Nothing is sent to the network from here.'}
+            </AlertDescription>
+          </div>
+        </Alert>
+
+        <div className="space-y-2">
+          <Label>From Address</Label>
+          <div className="p-3 bg-muted rounded-md font-mono text-sm break-all">
+            {wallet.address}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="offline-recipient">Recipient Address</Label>
+          <Input
+            id="offline-recipient"
+            placeholder="oct..."
+            value={recipientAddress}
+            onChange={(e) => setRecipientAddress(e.target.value.trim())}
+            className="font-mono"
+          />
+          {recipientAddress && !isOctraAddress(recipientAddress) && (
+            <p className="text-sm text-red-600">Invalid address format</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="offline-amount">Amount ( OCT )</Label>
+            <Input
+              id="offline-amount"
+              type="number"
+              placeholder="0.00000000"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              step="0.00000001"
+              min="0"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="offline-nonce">Nonce</Label>
+            <Input
+              id="offline-nonce"
+              type="number"
+              placeholder="Current nonce + 1"
+              value={nonce}
+              onChange={(e) => setNonce(e.target.value)}
+              min="1"
+            />
+            <p className="text-xs text-muted-foreground">
+              Look up the account nonce on a networked device and add 1
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="offline-message">Message ( Optional )</Label>
+          <Textarea
+            id="offline-message"
+            placeholder="Enter an optional message (max 1024 characters)"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            maxLength={1024}
+            rows={2}
+          />
+        </div>
+
+        {signedJson && (
+          <div className="space-y-4">
+            <Label className="text-base font-medium">Signed Transaction</Label>
+            {qrDataUrl && (
+              <div className="flex justify-center">
+                <img src={qrDataUrl} alt="Signed transaction QR code" className="rounded-md bg-white p-2" />
+              </div>
+            )}
+            {qrError && (
+              <Alert>
+                <div className="flex items-start space-x-3">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <AlertDescription>{qrError}</AlertDescription>
+                </div>
+              </Alert>
+            )}
+            <Textarea
+              value={signedJson}
+              readOnly
+              rows={5}
+              className="font-mono text-xs"
+            />
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => copyToClipboard(signedJson, 'Signed transaction')} className="flex-1">
+                <Copy className="h-4 w-4 mr-2" />
+                Copy JSON
+              </Button>
+              <Button variant="outline" onClick={downloadSignedTransaction} className="flex-1">
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {signedJson && (
+            <Button variant="outline" onClick={resetForm} className="flex-1" size="lg">
+              New Transaction
+            </Button>
+          )}
+          <Button
+            onClick={handleSign}
+            disabled={!isOctraAddress(recipientAddress) || !validateAmount(amount) || !validateNonce(nonce)}
+            className="flex-1"
+            size="lg"
+          >
+            Sign Transaction
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,7 +7,8 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Shield, Eye, EyeOff, AlertTriangle } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { hashPassword, encryptWalletData } from '../utils/password';
+import { hashPassword, encryptWalletData, storePassword, isLegacyVaultData, VAULT_VERSION } from '../utils/password';
+import { startSession } from '../utils/session';
 import { useToast } from '@/hooks/use-toast';
 
 interface PasswordSetupProps {
@@ -60,16 +61,14 @@ export function PasswordSetup({ wallet, onPasswordSet, onBack }: PasswordSetupPr
 
     try {
       // Hash the password
-      const { hashedPassword, salt } = await hashPassword(password);
+      const hashed = await hashPassword(password);
       
       // Encrypt wallet data
       const walletData = JSON.stringify(wallet);
       const encryptedWalletData = await encryptWalletData(walletData, password);
       
       // Store password hash and encrypted wallet
-      localStorage.setItem('walletPasswordHash', hashedPassword);
-      localStorage.setItem('walletPasswordSalt', salt);
-      localStorage.setItem('isWalletLocked', 'false');
+      storePassword(hashed);
       
       // Store encrypted wallet data
       const existingWallets = JSON.parse(localStorage.getItem('encryptedWallets') || '[]');
@@ -79,6 +78,13 @@ export function PasswordSetup({ wallet, onPasswordSet, onBack }: PasswordSetupPr
         createdAt: Date.now()
       }];
       localStorage.setItem('encryptedWallets', JSON.stringify(updatedWallets));
+
+      // Fresh keystores start on the current format; legacy entries are upgraded on unlock
+      if (!updatedWallets.some((entry: { encryptedData: string }) => isLegacyVaultData(entry.encryptedData))) {
+        localStorage.setItem('vaultVersion', VAULT_VERSION.toString());
+      }
+
+      await startSession([wallet], password);
       
       toast({
         title: "Password Created!",
@@ -0,0 +1,263 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Pause, Play, RotateCcw, Search, Download, Trash2, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { PayoutJob, PayoutRowStatus, Wallet } from '../types/wallet';
+import {
+  countPayoutRows,
+  deletePayoutJob,
+  detectAlreadyPaidRows,
+  exportPayoutReport,
+  getPayoutJobs,
+  isPayoutJobRunningElsewhere,
+  isPayoutJobRunningHere,
+  pausePayoutJob,
+  retryFailedPayoutRows,
+  runPayoutJob,
+  syncPayoutJobs,
+  PAYOUT_JOBS_STORAGE_KEY,
+  PAYOUT_JOBS_UPDATED_EVENT
+} from '../utils/payoutJobs';
+import { TX_QUEUE_UPDATED_EVENT } from '../utils/txQueue';
+import { useToast } from '@/hooks/use-toast';
+
+interface PayoutJobsProps {
+  wallet: Wallet;
+  onJobFinished?: (job: PayoutJob) => void;
+}
+
+const ROW_STATUS_CLASSES: Record<PayoutRowStatus, string> = {
+  pending: 'text-muted-foreground',
+  sending: 'text-blue-600',
+  sent: 'text-green-600',
+  confirmed: 'text-green-700 dark:text-green-400',
+  failed: 'text-red-600',
+  'already-paid': 'text-yellow-700 dark:text-yellow-400',
+  unknown: 'text-orange-600'
+};
+
+export function PayoutJobs({ wallet, onJobFinished }: PayoutJobsProps) {
+  const [jobs, setJobs] = useState<PayoutJob[]>([]);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [checkingJobId, setCheckingJobId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const refresh = () => setJobs(getPayoutJobs(wallet.address));
+    const handleQueueUpdate = () => syncPayoutJobs(wallet.address);
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === PAYOUT_JOBS_STORAGE_KEY) refresh();
+    };
+
+    syncPayoutJobs(wallet.address);
+    refresh();
+    window.addEventListener(PAYOUT_JOBS_UPDATED_EVENT, refresh);
+    window.addEventListener(TX_QUEUE_UPDATED_EVENT, handleQueueUpdate);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(PAYOUT_JOBS_UPDATED_EVENT, refresh);
+      window.removeEventListener(TX_QUEUE_UPDATED_EVENT, handleQueueUpdate);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [wallet.address]);
+
+  const handleRun = async (job: PayoutJob) => {
+    try {
+      const result = await runPayoutJob(job.id, wallet);
+      if (result?.status === 'completed') {
+        onJobFinished?.(result);
+      }
+    } catch (error) {
+      console.error('Payout job error:', error);
+      toast({
+        title: "Payout Paused",
+        description: error instanceof Error ? error.message : "The job stopped unexpectedly and can be resumed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRetryFailed = async (job: PayoutJob) => {
+    setCheckingJobId(job.id);
+    let updated: PayoutJob | null;
+    try {
+      updated = await retryFailedPayoutRows(job.id, wallet);
+    } catch (error) {
+      console.error('Payout retry error:', error);
+      toast({
+        title: "Retry Failed",
+        description: "Could not check whether the failed rows were paid after all. Nothing was resent.",
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      setCheckingJobId(null);
+    }
+
+    if (updated) {
+      const { unknown } = countPayoutRows(updated);
+      if (unknown > 0) {
+        toast({
+          title: "History Incomplete",
+          description: `${unknown} row${unknown === 1 ? '' : 's'} could not be checked against the full history and will not be resent`,
+          variant: "destructive",
+        });
+      }
+      handleRun(updated);
+    }
+  };
+
+  const handleCheckOnChain = async (job: PayoutJob) => {
+    setCheckingJobId(job.id);
+    try {
+      const { matched, unknown } = await detectAlreadyPaidRows(job.id);
+      if (unknown > 0) {
+        toast({
+          title: "History Incomplete",
+          description: `Part of the history could not be read. ${unknown} unmatched row${unknown === 1 ? ' is' : 's are'} marked unknown and will not be sent until a full check clears them.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "History Checked",
+        description: matched > 0
+          ? `${matched} row${matched === 1 ? '' : 's'} already paid on-chain and will be skipped`
+          : "No unrecorded payments found",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load transaction history",
+        variant: "destructive",
+      });
+    } finally {
+      setCheckingJobId(null);
+    }
+  };
+
+  const downloadReport = (job: PayoutJob, format: 'csv' | 'json') => {
+    const content = exportPayoutReport(job, format);
+    const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${job.id}-report.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-base font-medium">Payout Jobs</Label>
+      {jobs.map((job) => {
+        const counts = countPayoutRows(job);
+        const runningHere = isPayoutJobRunningHere(job.id);
+        const runningElsewhere = isPayoutJobRunningElsewhere(job);
+        const isIdle = !runningHere && !runningElsewhere;
+        const progress = job.rows.length > 0 ? ((job.rows.length - counts.remaining) / job.rows.length) * 100 : 0;
+
+        return (
+          <div key={job.id} className="p-3 sm:p-4 border rounded-lg space-y-3">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="font-medium truncate">{job.name}</div>
+                <div className="text-xs text-muted-foreground font-mono">
+                  {job.id} · {new Date(job.createdAt).toLocaleString()}
+                </div>
+              </div>
+              <Badge variant={job.status === 'completed' ? 'default' : 'secondary'} className="text-xs capitalize">
+                {runningElsewhere ? 'running in another tab' : job.status}
+              </Badge>
+            </div>
+
+            <Progress value={progress} />
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+              <span className="text-green-600">{counts.paid} paid</span>
+              <span>{counts.confirmed} confirmed</span>
+              <span className="text-red-600">{counts.failed} failed</span>
+              {counts.unknown > 0 && <span className="text-orange-600">{counts.unknown} unknown</span>}
+              <span className="text-muted-foreground">{counts.remaining} remaining</span>
+              <span className="text-muted-foreground">of {job.rows.length}</span>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {runningHere && job.status === 'running' && (
+                <Button variant="outline" size="sm" onClick={() => pausePayoutJob(job.id)}>
+                  <Pause className="h-4 w-4 mr-1" />
+                  Pause
+                </Button>
+              )}
+              {isIdle && counts.remaining > 0 && (
+                <Button variant="outline" size="sm" onClick={() => handleRun(job)}>
+                  <Play className="h-4 w-4 mr-1" />
+                  {job.status === 'ready' ? 'Start' : 'Resume'}
+                </Button>
+              )}
+              {runningHere && job.status !== 'running' && (
+                <Button variant="outline" size="sm" disabled>
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  Finishing batch...
+                </Button>
+              )}
+              {isIdle && counts.failed > 0 && (
+                <Button variant="outline" size="sm" onClick={() => handleRetryFailed(job)} disabled={checkingJobId === job.id}>
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Retry Failed
+                </Button>
+              )}
+              {isIdle && (counts.remaining > 0 || counts.failed > 0 || counts.unknown > 0) && (
+                <Button variant="outline" size="sm" onClick={() => handleCheckOnChain(job)} disabled={checkingJobId === job.id}>
+                  {checkingJobId === job.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Search className="h-4 w-4 mr-1" />}
+                  Check On-Chain
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => downloadReport(job, 'csv')}>
+                <Download className="h-4 w-4 mr-1" />
+                CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => downloadReport(job, 'json')}>
+                <Download className="h-4 w-4 mr-1" />
+                JSON
+              </Button>
+              {isIdle && (
+                <Button variant="ghost" size="sm" onClick={() => deletePayoutJob(job.id)} className="text-red-500 hover:text-red-700">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}>
+                {expandedJobId === job.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              </Button>
+            </div>
+
+            {expandedJobId === job.id && (
+              <ScrollArea className="h-60 border rounded-md">
+                <div className="p-2 space-y-1">
+                  {job.rows.map((row) => (
+                    <div key={row.row} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="text-muted-foreground w-10 flex-shrink-0">#{row.row}</span>
+                      <span className="font-mono truncate flex-1">{row.recipient}</span>
+                      <span className="font-mono">{row.amount} OCT</span>
+                      <span className={`w-20 text-right ${ROW_STATUS_CLASSES[row.status]}`} title={row.error || row.hash}>
+                        {row.status}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
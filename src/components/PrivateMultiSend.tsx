@@ -0,0 +1,573 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Shield, Users, Upload, AlertTriangle, Wallet as WalletIcon, CheckCircle, ExternalLink, Copy, Loader2, Search } from 'lucide-react';
+import { PayoutFileEntry, PrivateBalanceState, PrivateBatchRecipient, PrivateBatchResult, Wallet } from '../types/wallet';
+import { getAddressInfo } from '../utils/api';
+import { getPrivateBalance, sendPrivateBatch } from '../utils/privateBalance';
+import { findDuplicateRecipients, guessColumnMapping, mapPayoutRows, readPayoutFile, PAYOUT_FILE_EXTENSIONS } from '../utils/payoutFile';
+import { isDomainName, resolveDomain, findChangedDomainRecords } from '../utils/domain';
+import { useToast } from '@/hooks/use-toast';
+
+const MU_FACTOR = 1_000_000;
+
+interface PrivateMultiSendProps {
+  wallet: Wallet | null;
+  onTransactionSuccess: () => void;
+}
+
+export function PrivateMultiSend({ wallet, onTransactionSuccess }: PrivateMultiSendProps) {
+  const [recipientsText, setRecipientsText] = useState('');
+  const [checkedRecipients, setCheckedRecipients] = useState<PrivateBatchRecipient[] | null>(null);
+  const [encryptedBalance, setEncryptedBalance] = useState<PrivateBalanceState | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [results, setResults] = useState<PrivateBatchResult[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (wallet) {
+      getPrivateBalance(wallet).then(setEncryptedBalance);
+    }
+  }, [wallet]);
+
+  // The checks only hold for the account and list they were run on
+  useEffect(() => {
+    setCheckedRecipients(null);
+  }, [wallet?.address]);
+
+  const updateRecipientsText = (text: string) => {
+    setRecipientsText(text);
+    setCheckedRecipients(null);
+  };
+
+  const copyToClipboard = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied!",
+        description: `${label} copied to clipboard`,
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Copy failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!PAYOUT_FILE_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
+      toast({
+        title: "Invalid File",
+        description: "Please upload a .txt, .csv, .tsv or .json file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const table = readPayoutFile(file.name, await file.text());
+      const mapping = guessColumnMapping(table);
+      if (mapping.amount === null) {
+        toast({
+          title: "Invalid File",
+          description: "No amount column found. Every recipient needs an amount.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Loaded into the list so rows can still be edited before the check
+      const entries = mapPayoutRows(table, mapping);
+      // Cleared even when the file matches the list, since a reload is a new list to check
+      updateRecipientsText(entries.map(entry => `${entry.address} ${entry.amount}`.trim()).join('\n'));
+      setResults([]);
+      toast({
+        title: "File Loaded",
+        description: `${entries.length} recipients loaded from ${file.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid File",
+        description: error instanceof Error ? error.message : "Failed to read file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const checkRecipient = async (recipient: PrivateBatchRecipient): Promise<PrivateBatchRecipient> => {
+    if (recipient.error) return recipient;
+
+    let resolvedAddress = recipient.address;
+    if (isDomainName(recipient.address)) {
+      try {
+        const record = await resolveDomain(recipient.address);
+        if (!record) {
+          return { ...recipient, error: 'Domain not registered' };
+        }
+        resolvedAddress = record.address;
+      } catch (error) {
+        return { ...recipient, error: error instanceof Error ? error.message : 'Domain resolution failed' };
+      }
+    }
+
+    if (resolvedAddress === wallet?.address) {
+      return { ...recipient, resolvedAddress, error: 'Cannot send to yourself' };
+    }
+
+    const info = await getAddressInfo(resolvedAddress);
+    if (!info) {
+      return { ...recipient, resolvedAddress, error: 'Failed to check recipient' };
+    }
+    if (!info.has_public_key) {
+      return { ...recipient, resolvedAddress, error: 'No public key. The recipient needs to make a transaction first.' };
+    }
+    return { ...recipient, resolvedAddress };
+  };
+
+  const handleCheck = async () => {
+    if (!wallet) return;
+
+    let entries: PayoutFileEntry[];
+    try {
+      const table = readPayoutFile('recipients.txt', recipientsText);
+      entries = mapPayoutRows(table, guessColumnMapping(table));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read recipients",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (entries.length === 0) {
+      toast({
+        title: "Error",
+        description: "Add at least one recipient",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsChecking(true);
+    setResults([]);
+
+    try {
+      const [checked, balance] = await Promise.all([
+        Promise.all(entries.map(entry => checkRecipient({
+          row: entry.row,
+          address: entry.address,
+          resolvedAddress: '',
+          amount: entry.amount,
+          error: entry.error
+        }))),
+        getPrivateBalance(wallet)
+      ]);
+
+      // Compared after resolution, so a domain and the address it points to count as the same recipient
+      const duplicates = findDuplicateRecipients(checked.filter(r => !r.error), r => r.resolvedAddress);
+      setCheckedRecipients(checked.map(r => duplicates.has(r.row)
+        ? { ...r, warning: `Duplicate recipient, also paid in row ${duplicates.get(r.row)}` }
+        : r
+      ));
+      setEncryptedBalance(balance);
+
+      const failed = checked.filter(r => r.error).length;
+      if (failed > 0) {
+        toast({
+          title: "Recipients Need Attention",
+          description: `${failed} of ${checked.length} recipients cannot receive a private transfer`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Private multi-send check error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check recipients",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!wallet || !checkedRecipients) return;
+
+    setIsSending(true);
+    setResults([]);
+
+    try {
+      // Block the send if any domain now points somewhere other than the checked address
+      const changedDomains = await findChangedDomainRecords(
+        checkedRecipients.map(r => ({ name: r.address, address: r.resolvedAddress }))
+      );
+      if (changedDomains.length > 0) {
+        toast({
+          title: "Domain Record Changed",
+          description: `${changedDomains.join(', ')} no longer resolve${changedDomains.length === 1 ? 's' : ''} to the checked address. Check the recipients again.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const batchResults = await sendPrivateBatch(
+        wallet,
+        checkedRecipients.map(r => ({ to: r.resolvedAddress, amount: Number(r.amount) })),
+        (index, result) => {
+          const recipient = checkedRecipients[index];
+          setResults(previous => [...previous, { ...result, row: recipient.row, address: recipient.address, amount: recipient.amount }]);
+        }
+      );
+
+      const successCount = batchResults.filter(r => r.success).length;
+      if (successCount > 0) {
+        toast({
+          title: "Private Transfers Sent!",
+          description: `${successCount} out of ${batchResults.length} private transfers sent successfully`,
+        });
+
+        onTransactionSuccess();
+      } else {
+        toast({
+          title: "Transfers Failed",
+          description: batchResults[0]?.error || "Unknown error occurred",
+          variant: "destructive",
+        });
+      }
+
+      // Only the failed rows stay in the list, so retrying can't pay anyone twice
+      setRecipientsText(checkedRecipients
+        .filter((_, i) => !batchResults[i].success)
+        .map(r => `${r.address} ${r.amount}`)
+        .join('\n'));
+      setCheckedRecipients(null);
+      getPrivateBalance(wallet).then(setEncryptedBalance);
+    } catch (error) {
+      console.error('Private multi-send error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send private transfers",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (!wallet) {
+    return (
+      <Alert>
+        <WalletIcon className="h-4 w-4" />
+        <AlertDescription>
+          No wallet available. Please generate or import a wallet first.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (encryptedBalance?.error) {
+    return (
+      <Alert variant="destructive">
+        <div className="flex items-start space-x-3">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <AlertDescription>
+            Your encrypted balance could not be decrypted ({encryptedBalance.error}). Private transfers are unavailable until it can be read.
+          </AlertDescription>
+        </div>
+      </Alert>
+    );
+  }
+
+  const availableRaw = encryptedBalance?.encrypted_raw ?? 0;
+  const totalRaw = (checkedRecipients || []).reduce((sum, r) => sum + Math.floor(Number(r.amount) * MU_FACTOR), 0);
+  const invalidCount = (checkedRecipients || []).filter(r => r.error).length;
+  const canSend = !!checkedRecipients && checkedRecipients.length > 0 && invalidCount === 0 && totalRaw <= availableRaw;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Private Multi Send
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Alert>
+          <div className="flex items-start space-x-3">
+            <Shield className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <AlertDescription>
+              Sends a separate private transfer to each recipient from your encrypted balance, one after another. Every recipient must have published a public key.
+            </AlertDescription>
+          </div>
+        </Alert>
+
+        <div className="p-3 bg-muted rounded-md">
+          <div className="flex justify-between items-center">
+            <span className="text-sm font-medium">Available Private Balance</span>
+            <span className="font-mono text-lg font-bold text-yellow-600">
+              {encryptedBalance ? `${encryptedBalance.encrypted.toFixed(8)} OCT` : 'Loading...'}
+            </span>
+          </div>
+        </div>
+
+        {/* Recipients */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="private-recipients">Recipients ( one per line: address amount )</Label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isChecking || isSending}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Load File
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={PAYOUT_FILE_EXTENSIONS.join(',')}
+              onChange={handleFileUpload}
+              className="hidden"
+            />
+          </div>
+          <Textarea
+            id="private-recipients"
+            placeholder={'oct... 10.5\nname.oct 2'}
+            value={recipientsText}
+            onChange={(e) => updateRecipientsText(e.target.value)}
+            disabled={isSending}
+            className="font-mono text-xs"
+            rows={8}
+          />
+        </div>
+
+        {/* Recipient Checks */}
+        {checkedRecipients && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-base font-medium">Recipient Check</Label>
+              <Badge variant={invalidCount > 0 ? 'destructive' : 'secondary'}>
+                {checkedRecipients.length - invalidCount} of {checkedRecipients.length} ready
+              </Badge>
+            </div>
+            <ScrollArea className="max-h-64">
+              <div className="space-y-2">
+                {checkedRecipients.map((recipient) => (
+                  <div key={recipient.row} className="flex items-center justify-between gap-2 p-3 border rounded-md">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        {recipient.error ? (
+                          <AlertTriangle className="h-4 w-4 text-red-500 flex-shrink-0" />
+                        ) : (
+                          <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0" />
+                        )}
+                        <span className="text-xs text-muted-foreground">Row {recipient.row}</span>
+                        <span className="text-xs font-mono truncate">{recipient.address}</span>
+                      </div>
+                      {isDomainName(recipient.address) && recipient.resolvedAddress && (
+                        <div className="text-xs text-muted-foreground font-mono break-all">{recipient.resolvedAddress}</div>
+                      )}
+                      {recipient.error && <div className="text-xs text-red-600">{recipient.error}</div>}
+                      {recipient.warning && <div className="text-xs text-yellow-600">{recipient.warning}</div>}
+                    </div>
+                    <div className="font-mono text-sm flex-shrink-0">{recipient.amount || '-'} OCT</div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="p-3 sm:p-4 bg-muted rounded-md space-y-1 text-xs sm:text-sm">
+              <div className="flex justify-between items-center">
+                <span>Total Recipients:</span>
+                <span>{checkedRecipients.length}</span>
+              </div>
+              <div className="flex justify-between items-center font-medium">
+                <span>Total Amount:</span>
+                <span className="font-mono">{(totalRaw / MU_FACTOR).toFixed(8)} OCT</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span>Private Balance:</span>
+                <span className="font-mono">{(availableRaw / MU_FACTOR).toFixed(8)} OCT</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span>Remaining Private Balance:</span>
+                <span className={`font-mono ${availableRaw - totalRaw >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {((availableRaw - totalRaw) / MU_FACTOR).toFixed(8)} OCT
+                </span>
+              </div>
+              {totalRaw > availableRaw && (
+                <div className="text-red-600 text-xs mt-2 break-words">
+                  ⚠️ Insufficient encrypted balance for this batch
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Results */}
+        {results.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-base font-medium">Transfer Results</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => copyToClipboard(JSON.stringify(results, null, 2), 'Results')}
+              >
+                <Copy className="h-4 w-4 mr-1" />
+                Copy
+              </Button>
+            </div>
+            {results.map((result) => (
+              <div
+                key={result.row}
+                className={`rounded-lg p-3 sm:p-4 ${result.success ? 'bg-green-50 border border-green-200 dark:bg-green-950/50 dark:border-green-800' : 'bg-red-50 border border-red-200 dark:bg-red-950/50 dark:border-red-800'}`}
+              >
+                <div className="flex items-start space-x-2">
+                  {result.success ? (
+                    <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400 mr-2 mt-0.5 flex-shrink-0" />
+                  ) : (
+                    <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400 mr-2 mt-0.5 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm font-medium ${result.success ? 'text-green-800 dark:text-green-200' : 'text-red-800 dark:text-red-200'}`}>
+                      {result.success ? 'Sent' : 'Failed'}
+                    </p>
+                    <div className="mt-1 space-y-1">
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        <span className="font-medium">To:</span> <span className="font-mono break-all">{result.address}</span>
+                      </p>
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        <span className="font-medium">Amount:</span> {result.amount} OCT
+                      </p>
+                    </div>
+                    {result.success && result.tx_hash && (
+                      <div className="mt-2">
+                        <p className="text-green-700 dark:text-green-300 text-sm">Transaction Hash:</p>
+                        <div className="flex flex-col sm:flex-row sm:items-center mt-1 space-y-1 sm:space-y-0 sm:space-x-2">
+                          <code className="text-xs bg-green-100 dark:bg-green-900/50 px-2 py-1 rounded font-mono break-all text-green-800 dark:text-green-200 flex-1">
+                            {result.tx_hash}
+                          </code>
+                          <div className="flex space-x-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => copyToClipboard(result.tx_hash!, 'Transaction Hash')}
+                              className="h-6 w-6 p-0"
+                            >
+                              <Copy className="h-3 w-3" />
+                            </Button>
+                            <a
+                              href={`https://octrascan.io/tx/${result.tx_hash}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center justify-center h-6 w-6 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 transition-colors"
+                              title="View on OctraScan"
+                            >
+                              <ExternalLink className="h-3 w-3" />
+                            </a>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                    {result.success && result.ephemeral_key && (
+                      <div className="mt-2">
+                        <p className="text-green-700 dark:text-green-300 text-sm">Ephemeral Key:</p>
+                        <div className="flex flex-col sm:flex-row sm:items-center mt-1 space-y-1 sm:space-y-0 sm:space-x-2">
+                          <code className="text-xs bg-green-100 dark:bg-green-900/50 px-2 py-1 rounded font-mono break-all text-green-800 dark:text-green-200 flex-1">
+                            {result.ephemeral_key}
+                          </code>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => copyToClipboard(result.ephemeral_key!, 'Ephemeral Key')}
+                            className="h-6 w-6 p-0"
+                          >
+                            <Copy className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                    {result.error && (
+                      <p className="text-red-700 dark:text-red-300 text-xs mt-1 break-words">{result.error}</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Separator />
+
+        {canSend ? (
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              onClick={() => setCheckedRecipients(null)}
+              disabled={isSending}
+              className="flex-1"
+              size="lg"
+            >
+              Edit
+            </Button>
+            <Button
+              onClick={handleSend}
+              disabled={isSending}
+              className="flex-1"
+              size="lg"
+            >
+              {isSending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Sending {results.length + 1} of {checkedRecipients.length}...
+                </>
+              ) : (
+                <>
+                  <Shield className="h-4 w-4 mr-2" />
+                  Send {checkedRecipients.length} Private Transfers
+                </>
+              )}
+            </Button>
+          </div>
+        ) : (
+          <Button
+            onClick={handleCheck}
+            disabled={isChecking || isSending || !recipientsText.trim()}
+            className="w-full"
+            size="lg"
+          >
+            {isChecking ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Checking Recipients...
+              </>
+            ) : (
+              <>
+                <Search className="h-4 w-4 mr-2" />
+                Check Recipients
+              </>
+            )}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,10 +6,12 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Shield, AlertTriangle, Wallet as WalletIcon, CheckCircle, ExternalLink, Copy, Loader2 } from 'lucide-react';
-import { Wallet } from '../types/wallet';
-import { fetchEncryptedBalance, createPrivateTransfer, getAddressInfo } from '../utils/api';
+import { Shield, AlertTriangle, Wallet as WalletIcon, CheckCircle, ExternalLink, Copy, Loader2, Lock } from 'lucide-react';
+import { PreparedPrivateTransfer, Wallet } from '../types/wallet';
+import { getAddressInfo } from '../utils/api';
+import { getPrivateBalance, preparePrivateSend, submitPrivateSend } from '../utils/privateBalance';
 import { AddressInput } from './AddressInput';
+import { isDomainName, findChangedDomainRecords } from '../utils/domain';
 import { useToast } from '@/hooks/use-toast';
 
 interface PrivateTransferProps {
@@ -22,6 +24,8 @@ export function PrivateTransfer({ wallet, onTransactionSuccess }: PrivateTransfe
   const [resolvedRecipientAddress, setResolvedRecipientAddress] = useState('');
   const [amount, setAmount] = useState('');
   const [isSending, setIsSending] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [preparedTransfer, setPreparedTransfer] = useState<PreparedPrivateTransfer | null>(null);
   const [isCheckingRecipient, setIsCheckingRecipient] = useState(false);
   const [encryptedBalance, setEncryptedBalance] = useState<any>(null);
   const [recipientInfo, setRecipientInfo] = useState<any>(null);
@@ -31,10 +35,15 @@ export function PrivateTransfer({ wallet, onTransactionSuccess }: PrivateTransfe
   // Fetch encrypted balance when wallet changes
   useEffect(() => {
     if (wallet) {
-      fetchEncryptedBalance(wallet.address, wallet.privateKey).then(setEncryptedBalance);
+      getPrivateBalance(wallet).then(setEncryptedBalance);
     }
   }, [wallet]);
 
+  // Any edit invalidates the payload the user reviewed
+  useEffect(() => {
+    setPreparedTransfer(null);
+  }, [recipientAddress, resolvedRecipientAddress, amount, wallet?.address]);
+
   // Check recipient when address changes
   useEffect(() => {
     const checkRecipient = async () => {
@@ -95,7 +104,7 @@ export function PrivateTransfer({ wallet, onTransactionSuccess }: PrivateTransfe
     }
   };
 
-  const handleSend = async () => {
+  const handleReview = async () => {
     if (!wallet) {
       toast({
         title: "Error",
@@ -153,16 +162,51 @@ export function PrivateTransfer({ wallet, onTransactionSuccess }: PrivateTransfe
       return;
     }
 
+    setIsPreparing(true);
+    setResult(null);
+
+    try {
+      const { prepared, error } = await preparePrivateSend(wallet, finalRecipientAddress, amountNum);
+      if (prepared) {
+        setPreparedTransfer(prepared);
+      } else {
+        toast({
+          title: "Error",
+          description: error,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Private transfer preparation error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to encrypt private transfer",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!wallet || !preparedTransfer) return;
+
     setIsSending(true);
     setResult(null);
 
     try {
-      const transferResult = await createPrivateTransfer(
-        wallet.address,
-        finalRecipientAddress,
-        amountNum,
-        wallet.privateKey
-      );
+      // Block the send if the domain now points somewhere other than the previewed address
+      const changedDomains = await findChangedDomainRecords([{ name: recipientAddress, address: preparedTransfer.payload.to }]);
+      if (changedDomains.length > 0) {
+        toast({
+          title: "Domain Record Changed",
+          description: `${changedDomains[0]} no longer resolves to the previewed address. Review the recipient and try again.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const transferResult = await submitPrivateSend(wallet, preparedTransfer);
 
       setResult(transferResult);
 
@@ -177,9 +221,10 @@ export function PrivateTransfer({ wallet, onTransactionSuccess }: PrivateTransfe
         setResolvedRecipientAddress('');
         setAmount('');
         setRecipientInfo(null);
+        setPreparedTransfer(null);
 
         // Refresh encrypted balance
-        fetchEncryptedBalance(wallet.address, wallet.privateKey).then(setEncryptedBalance);
+        getPrivateBalance(wallet).then(setEncryptedBalance);
 
         onTransactionSuccess();
       } else {
@@ -216,6 +261,29 @@ export function PrivateTransfer({ wallet, onTransactionSuccess }: PrivateTransfe
     );
   }
 
+  if (encryptedBalance?.error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Shield className="h-5 w-5" />
+            Private Transfer
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Alert variant="destructive">
+            <div className="flex items-start space-x-3">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <AlertDescription>
+                Your encrypted balance could not be decrypted ({encryptedBalance.error}). Private transfers are unavailable until it can be read.
+              </AlertDescription>
+            </div>
+          </Alert>
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (!encryptedBalance || encryptedBalance.encrypted <= 0) {
     return (
       <Card>
@@ -274,7 +342,7 @@ export function PrivateTransfer({ wallet, onTransactionSuccess }: PrivateTransfe
             value={recipientAddress}
             onChange={setRecipientAddress}
             onResolvedAddress={setResolvedRecipientAddress}
-            placeholder="oct..."
+            placeholder="oct... or name.oct"
           />
           
           {/* Recipient Status */}
@@ -295,6 +363,11 @@ export function PrivateTransfer({ wallet, onTransactionSuccess }: PrivateTransfe
                     <CheckCircle className="h-4 w-4 text-green-500" />
                     <span className="text-sm text-green-600">Valid recipient</span>
                   </div>
+                  {isDomainName(recipientAddress) && resolvedRecipientAddress && (
+                    <div className="text-xs text-muted-foreground font-mono break-all">
+                      {resolvedRecipientAddress}
+                    </div>
+                  )}
                   <div className="text-xs text-muted-foreground">
                     Balance: {recipientInfo.balance || '0'} OCT
                   </div>
@@ -400,32 +473,90 @@ export function PrivateTransfer({ wallet, onTransactionSuccess }: PrivateTransfe
           </div>
         )}
 
-        <Button 
-          onClick={handleSend}
-          disabled={
-            isSending || 
-            !validateAddress(resolvedRecipientAddress || recipientAddress) || 
-            !validateAmount(amount) || 
-            !recipientInfo ||
-            recipientInfo.error ||
-            !recipientInfo.has_public_key ||
-            parseFloat(amount) > encryptedBalance.encrypted
-          }
-          className="w-full"
-          size="lg"
-        >
-          {isSending ? (
-            <>
-              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-              Sending Private Transfer...
-            </>
-          ) : (
-            <>
-              <Shield className="h-4 w-4 mr-2" />
-              Send Private Transfer
-            </>
-          )}
-        </Button>
+        {/* Encrypted Payload Review */}
+        {preparedTransfer && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="flex items-center gap-2">
+                <Lock className="h-4 w-4" />
+                Encrypted Payload
+              </Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => copyToClipboard(JSON.stringify(preparedTransfer.payload, null, 2), 'Payload')}
+              >
+                <Copy className="h-4 w-4 mr-1" />
+                Copy
+              </Button>
+            </div>
+            <pre className="p-3 bg-muted rounded-md font-mono text-xs whitespace-pre-wrap break-all">
+              {JSON.stringify(preparedTransfer.payload, null, 2)}
+            </pre>
+            <p className="text-xs text-muted-foreground">
+              Encrypted in your browser with a new ephemeral key. This exact payload is what the node receives, signed by your wallet.
+            </p>
+          </div>
+        )}
+
+        {preparedTransfer ? (
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              onClick={() => setPreparedTransfer(null)}
+              disabled={isSending}
+              className="flex-1"
+              size="lg"
+            >
+              Edit
+            </Button>
+            <Button
+              onClick={handleSend}
+              disabled={isSending}
+              className="flex-1"
+              size="lg"
+            >
+              {isSending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                <>
+                  <Shield className="h-4 w-4 mr-2" />
+                  Confirm & Send
+                </>
+              )}
+            </Button>
+          </div>
+        ) : (
+          <Button 
+            onClick={handleReview}
+            disabled={
+              isPreparing || 
+              !validateAddress(resolvedRecipientAddress || recipientAddress) || 
+              !validateAmount(amount) || 
+              !recipientInfo ||
+              recipientInfo.error ||
+              !recipientInfo.has_public_key ||
+              parseFloat(amount) > encryptedBalance.encrypted
+            }
+            className="w-full"
+            size="lg"
+          >
+            {isPreparing ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Encrypting...
+              </>
+            ) : (
+              <>
+                <Lock className="h-4 w-4 mr-2" />
+                Review Private Transfer
+              </>
+            )}
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
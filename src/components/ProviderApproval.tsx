@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Separator } from '@/components/ui/separator';
+import { AlertTriangle, FileSignature, Send, Shield } from 'lucide-react';
+import { ProviderError, ProviderRequest, Wallet } from '../types/wallet';
+import { signMessage } from '../utils/message';
+import { submitTransactions } from '../utils/txQueue';
+import { createProviderError, PROVIDER_ERROR_CODES } from '../utils/provider';
+import { useToast } from '@/hooks/use-toast';
+
+interface ProviderApprovalProps {
+  request: ProviderRequest;
+  origin: string;
+  originVerified?: boolean; // false when the origin is only what the request claims
+  wallet: Wallet;
+  onResolve: (result: unknown) => void;
+  onReject: (error: ProviderError) => void;
+}
+
+export function ProviderApproval({ request, origin, originVerified = true, wallet, onResolve, onReject }: ProviderApprovalProps) {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const { toast } = useToast();
+
+  const isTransaction = request.method === 'sendTransaction';
+  const params = request.params || {};
+  const message = typeof params.message === 'string' ? params.message : '';
+  const to = String(params.to || '');
+  const amount = Number(params.amount || 0);
+  const fee = amount < 1000 ? 0.001 : 0.003;
+
+  const handleApprove = async () => {
+    setIsProcessing(true);
+    try {
+      if (!isTransaction) {
+        onResolve(signMessage(wallet, message));
+        return;
+      }
+
+      const [entry] = await submitTransactions(wallet, [{ to, amount, message: message || undefined }]);
+      if (entry.status !== 'pending') {
+        throw new Error(entry.error || 'Transaction failed');
+      }
+      toast({
+        title: "Transaction Sent!",
+        description: `Sent ${amount} OCT requested by ${origin}`,
+      });
+      onResolve({ hash: entry.hash, nonce: entry.nonce });
+    } catch (error) {
+      console.error('Provider request error:', error);
+      const description = error instanceof Error ? error.message : 'Request failed';
+      toast({
+        title: "Request Failed",
+        description,
+        variant: "destructive",
+      });
+      onReject(createProviderError(PROVIDER_ERROR_CODES.INTERNAL, description));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleReject = () => {
+    onReject(createProviderError(PROVIDER_ERROR_CODES.USER_REJECTED, 'User rejected the request'));
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              <div className="h-16 w-16 bg-primary rounded-full flex items-center justify-center">
+                {isTransaction ? (
+                  <Send className="h-8 w-8 text-primary-foreground" />
+                ) : (
+                  <FileSignature className="h-8 w-8 text-primary-foreground" />
+                )}
+              </div>
+            </div>
+            <CardTitle className="text-xl">
+              {isTransaction ? 'Transaction Request' : 'Signature Request'}
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">{originVerified ? origin : `Claims to be from ${origin}`}</p>
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            {!originVerified && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Your browser didn't say which site sent this request, so any site could be using this name. Only approve it if you started this payment yourself.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-1">
+              <div className="text-sm font-medium">Account</div>
+              <div className="text-sm text-muted-foreground font-mono break-all">{wallet.address}</div>
+            </div>
+
+            <Separator />
+
+            {isTransaction ? (
+              <div className="p-3 bg-muted rounded-md space-y-2 text-sm">
+                <div className="flex justify-between gap-2">
+                  <span>To:</span>
+                  <span className="font-mono break-all text-right">{to}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Amount:</span>
+                  <span className="font-mono">{amount.toFixed(6)} OCT</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Fee:</span>
+                  <span className="font-mono">{fee.toFixed(3)} OCT</span>
+                </div>
+                {message && (
+                  <div className="flex justify-between gap-2">
+                    <span>Message:</span>
+                    <span className="break-all text-right">{message}</span>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Message</div>
+                <pre className="p-3 bg-muted rounded-md text-xs whitespace-pre-wrap break-all max-h-60 overflow-auto">{message}</pre>
+              </div>
+            )}
+
+            <Alert>
+              <Shield className="h-4 w-4" />
+              <AlertDescription>
+                {isTransaction
+                  ? 'Review the recipient and amount. Approving signs and broadcasts this transaction.'
+                  : 'Only sign messages from websites you trust. The signature cannot be used as a transaction.'}
+              </AlertDescription>
+            </Alert>
+
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={handleReject}
+                disabled={isProcessing}
+                className="flex-1"
+              >
+                Reject
+              </Button>
+              <Button
+                onClick={handleApprove}
+                disabled={isProcessing}
+                className="flex-1"
+              >
+                {isProcessing ? (isTransaction ? "Sending..." : "Signing...") : "Approve"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -6,8 +6,11 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Wifi, Plus, MoreVertical, Trash2, Star, Settings } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Wifi, Plus, MoreVertical, Trash2, Star, Settings, KeyRound, AlertTriangle } from 'lucide-react';
 import { RPCProvider } from '../types/wallet';
+import { isLegacyKeyDisclosureEnabled, setLegacyKeyDisclosureEnabled } from '../utils/nodeAuth';
 import { useToast } from '@/hooks/use-toast';
 
 interface RPCProviderManagerProps {
@@ -18,6 +21,7 @@ export function RPCProviderManager({ onClose }: RPCProviderManagerProps) {
   const [providers, setProviders] = useState<RPCProvider[]>([]);
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [editingProvider, setEditingProvider] = useState<RPCProvider | null>(null);
+  const [legacyKeyEndpoints, setLegacyKeyEndpoints] = useState(isLegacyKeyDisclosureEnabled());
   const { toast } = useToast();
 
   // Form state
@@ -55,6 +59,21 @@ export function RPCProviderManager({ onClose }: RPCProviderManagerProps) {
     }
   };
 
+  const handleLegacyKeyEndpointsChange = (enabled: boolean) => {
+    if (enabled && !window.confirm('Your private key will be sent to the RPC node whenever it does not support signed requests. Anyone running that node can take all funds in your wallets. Only continue if you run the node yourself. Enable anyway?')) {
+      return;
+    }
+    setLegacyKeyDisclosureEnabled(enabled);
+    setLegacyKeyEndpoints(enabled);
+    toast({
+      title: enabled ? "Legacy Endpoints Enabled" : "Legacy Endpoints Disabled",
+      description: enabled
+        ? "Private keys may be sent to nodes without signed request support"
+        : "Private keys will never be sent to the node",
+      variant: enabled ? "destructive" : "default",
+    });
+  };
+
   const saveProviders = (updatedProviders: RPCProvider[]) => {
     const sorted = updatedProviders.sort((a, b) => a.priority - b.priority);
     setProviders(sorted);
@@ -366,6 +385,38 @@ export function RPCProviderManager({ onClose }: RPCProviderManagerProps) {
           </div>
         </CardContent>
       </Card>
+
+      <Card className={legacyKeyEndpoints ? 'border-red-500' : undefined}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Private Balance Authentication
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Encrypted balance and private transfer requests are signed in the browser. The node never receives your private key.
+          </p>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="legacy-key-endpoints" className="text-sm">
+              Fall back to legacy endpoints that require the private key
+            </Label>
+            <Switch
+              id="legacy-key-endpoints"
+              checked={legacyKeyEndpoints}
+              onCheckedChange={handleLegacyKeyEndpointsChange}
+            />
+          </div>
+          {legacyKeyEndpoints && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Enabled: nodes without signed request support will receive your raw private key. Turn this off unless you operate the node.
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
\ No newline at end of file
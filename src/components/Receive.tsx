@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { QrCode, Copy, Download, Printer } from 'lucide-react';
+import { Wallet } from '../types/wallet';
+import { buildPaymentLink, buildPaymentUri, registerPaymentUriHandler } from '../utils/paymentUri';
+import { validatePayoutAmount } from '../utils/payoutFile';
+import { renderQrDataUrl, renderQrSvg } from '../utils/qr';
+import { useToast } from '@/hooks/use-toast';
+
+interface ReceiveProps {
+  wallet: Wallet;
+}
+
+export function Receive({ wallet }: ReceiveProps) {
+  const [amount, setAmount] = useState('');
+  const [message, setMessage] = useState('');
+  const [label, setLabel] = useState('');
+  const [qrDataUrl, setQrDataUrl] = useState('');
+  const { toast } = useToast();
+
+  const amountError = amount ? validatePayoutAmount(amount) : null;
+  const hasPaymentDetails = !!(amount || message || label);
+  const uri = amountError ? '' : buildPaymentUri({
+    recipients: [{ address: wallet.address, amount: amount || undefined, message: message || undefined }],
+    label: label || undefined
+  });
+  // The bare address scans in any wallet; the payment URI is only used once there is something to add to it
+  const qrContent = hasPaymentDetails ? uri : wallet.address;
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!qrContent) {
+      setQrDataUrl('');
+      return;
+    }
+    renderQrDataUrl(qrContent).then(
+      (dataUrl) => { if (!cancelled) setQrDataUrl(dataUrl); },
+      (error) => console.error('QR render error:', error)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [qrContent]);
+
+  const fileBaseName = `octra-${wallet.address.slice(0, 10)}${amount ? `-${amount}` : ''}`;
+
+  const downloadPng = async () => {
+    const a = document.createElement('a');
+    a.href = await renderQrDataUrl(qrContent, 1024);
+    a.download = `${fileBaseName}.png`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  const downloadSvg = async () => {
+    const blob = new Blob([await renderQrSvg(qrContent)], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileBaseName}.svg`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePrint = async () => {
+    const printWindow = window.open('', '_blank', 'width=600,height=800');
+    if (!printWindow) {
+      toast({
+        title: "Print Blocked",
+        description: "Allow pop-ups for this site to print the QR code",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const svg = await renderQrSvg(qrContent);
+    const doc = printWindow.document;
+    doc.title = 'Octra Payment QR';
+    doc.body.style.cssText = 'font-family:sans-serif;text-align:center;padding:32px';
+    const qr = doc.createElement('div');
+    qr.style.cssText = 'width:320px;margin:0 auto';
+    qr.innerHTML = svg;
+    doc.body.appendChild(qr);
+    for (const text of [label, amount && `${amount} OCT`, message, wallet.address]) {
+      if (!text) continue;
+      const line = doc.createElement('p');
+      line.style.cssText = 'font-family:monospace;word-break:break-all';
+      line.textContent = text;
+      doc.body.appendChild(line);
+    }
+    printWindow.print();
+  };
+
+  const copyToClipboard = async (text: string, description: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied!",
+        description,
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Copy failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRegister = () => {
+    if (registerPaymentUriHandler()) {
+      toast({
+        title: "Handler Requested",
+        description: "Confirm in your browser to open web+octra: links with this wallet",
+      });
+    } else {
+      toast({
+        title: "Not Supported",
+        description: "This browser can't open payment links in the wallet",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="h-5 w-5" />
+          Receive
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col items-center gap-3">
+          {qrDataUrl ? (
+            <img src={qrDataUrl} alt="Receive QR code" className="rounded-md bg-white p-2 w-64 h-64" />
+          ) : (
+            <div className="w-64 h-64 rounded-md bg-muted" />
+          )}
+          <div className="p-3 bg-muted rounded-md font-mono text-sm break-all text-center w-full">
+            {wallet.address}
+          </div>
+          <div className="flex flex-wrap justify-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => copyToClipboard(wallet.address, "Address copied to clipboard")}>
+              <Copy className="h-4 w-4 mr-1" />
+              Copy Address
+            </Button>
+            <Button variant="outline" size="sm" onClick={downloadPng} disabled={!qrContent}>
+              <Download className="h-4 w-4 mr-1" />
+              PNG
+            </Button>
+            <Button variant="outline" size="sm" onClick={downloadSvg} disabled={!qrContent}>
+              <Download className="h-4 w-4 mr-1" />
+              SVG
+            </Button>
+            <Button variant="outline" size="sm" onClick={handlePrint} disabled={!qrContent}>
+              <Printer className="h-4 w-4 mr-1" />
+              Print
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="font-medium">Request a Payment</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="request-amount">Amount ( OCT, optional )</Label>
+              <Input
+                id="request-amount"
+                placeholder="0.000000"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value.trim())}
+              />
+              {amountError && (
+                <p className="text-sm text-red-600">{amountError}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="request-label">Label ( optional )</Label>
+              <Input
+                id="request-label"
+                placeholder="Your name or shop"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                maxLength={100}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="request-message">Message ( optional )</Label>
+            <Input
+              id="request-message"
+              placeholder="INV-42"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={1024}
+            />
+          </div>
+
+          {hasPaymentDetails && uri && (
+            <div className="space-y-2">
+              <Label>Payment Link</Label>
+              <div className="p-3 bg-muted rounded-md font-mono text-xs break-all">{uri}</div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={() => copyToClipboard(uri, "Payment URI copied to clipboard")}>
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy URI
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => copyToClipboard(buildPaymentLink(uri), "Web link copied to clipboard")}>
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy Web Link
+                </Button>
+                <Button variant="ghost" size="sm" onClick={handleRegister}>
+                  Open links with this wallet
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { AlertTriangle, CheckCircle, FileText, Loader2 } from 'lucide-react';
+import { BackupRestoreMode, BackupRestoreReport, Wallet } from '../types/wallet';
+import { readBackup, restoreBackup } from '../utils/backup';
+import { getSessionWallets } from '../utils/session';
+import { useToast } from '@/hooks/use-toast';
+
+interface RestoreBackupProps {
+  onWalletsRestored: (walletsToAdd: Wallet[], walletsToRemove: Wallet[]) => void;
+}
+
+export function RestoreBackup({ onWalletsRestored }: RestoreBackupProps) {
+  const [fileName, setFileName] = useState('');
+  const [fileContent, setFileContent] = useState('');
+  const [password, setPassword] = useState('');
+  const [mode, setMode] = useState<BackupRestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [report, setReport] = useState<BackupRestoreReport | null>(null);
+  const { toast } = useToast();
+
+  const hasExistingWallets = getSessionWallets().length > 0;
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setFileContent(await file.text());
+    setReport(null);
+    event.target.value = '';
+  };
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    try {
+      const payload = await readBackup(fileContent, password);
+      const result = restoreBackup(payload, getSessionWallets(), hasExistingWallets ? mode : 'merge');
+      setReport(result);
+
+      onWalletsRestored(result.walletsToAdd, result.walletsToRemove);
+      toast({
+        title: "Backup Restored",
+        description: `${result.walletsToAdd.length} wallet(s) restored${result.conflicts.length > 0 ? `, ${result.conflicts.length} conflict(s)` : ''}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Restore Failed",
+        description: error instanceof Error ? error.message : "Failed to restore backup",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Backup File</Label>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileUpload}
+          className="hidden"
+          id="backup-upload"
+        />
+        <Button
+          variant="outline"
+          onClick={() => document.getElementById('backup-upload')?.click()}
+          className="w-full"
+        >
+          <FileText className="h-4 w-4 mr-2" />
+          {fileName || 'Choose Backup File'}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="backup-password">Backup Password</Label>
+        <Input
+          id="backup-password"
+          type="password"
+          placeholder="Password the backup was created with"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+
+      {hasExistingWallets && (
+        <div className="space-y-2">
+          <Label>Existing Wallets</Label>
+          <RadioGroup value={mode} onValueChange={(value: BackupRestoreMode) => setMode(value)}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="merge" id="restore-merge" />
+              <Label htmlFor="restore-merge">Merge with wallets in this browser</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="replace" id="restore-replace" />
+              <Label htmlFor="restore-replace">Replace wallets and settings with the backup</Label>
+            </div>
+          </RadioGroup>
+          {mode === 'replace' && (
+            <Alert variant="destructive">
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <AlertDescription>
+                  Wallets that are not in the backup will be removed from this browser. Make sure you have their keys.
+                </AlertDescription>
+              </div>
+            </Alert>
+          )}
+        </div>
+      )}
+
+      {report && (
+        <div className="p-3 bg-muted rounded-md space-y-2 text-sm">
+          <div className="flex items-center gap-2 font-medium">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            {report.walletsToAdd.length} wallet(s) added, {report.walletsToRemove.length} removed, {report.settingsRestored} setting(s) restored
+          </div>
+          {report.conflicts.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-yellow-700 dark:text-yellow-400">Conflicts ( existing data kept ):</div>
+              {report.conflicts.map((conflict) => (
+                <div key={`${conflict.kind}-${conflict.key}`} className="text-xs break-all">
+                  <span className="font-mono">{conflict.key}</span> — {conflict.detail}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <Button
+        onClick={handleRestore}
+        disabled={isRestoring || !fileContent || !password}
+        className="w-full"
+        size="lg"
+      >
+        {isRestoring ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Restoring...
+          </>
+        ) : (
+          "Restore from Backup"
+        )}
+      </Button>
+    </div>
+  );
+}
@@ -7,10 +7,12 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
-import { Send, AlertTriangle, Wallet as WalletIcon, CheckCircle, ExternalLink, Copy, MessageSquare, Calculator } from 'lucide-react';
-import { Wallet } from '../types/wallet';
-import { fetchBalance, sendTransaction, createTransaction } from '../utils/api';
+import { Send, AlertTriangle, Wallet as WalletIcon, CheckCircle, ExternalLink, Copy, MessageSquare, Calculator, Link } from 'lucide-react';
+import { PaymentRequest, Wallet } from '../types/wallet';
+import { fetchBalance } from '../utils/api';
+import { submitTransactions } from '../utils/txQueue';
 import { AddressInput } from './AddressInput';
+import { isDomainName, findChangedDomainRecords } from '../utils/domain';
 import { useToast } from '@/hooks/use-toast';
 
 interface SendTransactionProps {
@@ -20,17 +22,49 @@ interface SendTransactionProps {
   onBalanceUpdate: (balance: number) => void;
   onNonceUpdate: (nonce: number) => void;
   onTransactionSuccess: () => void;
+  paymentRequest?: PaymentRequest | null;
+  onPaymentRequestApplied?: () => void;
 }
 
-export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNonceUpdate, onTransactionSuccess }: SendTransactionProps) {
+export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNonceUpdate, onTransactionSuccess, paymentRequest, onPaymentRequestApplied }: SendTransactionProps) {
   const [recipientAddress, setRecipientAddress] = useState('');
   const [resolvedRecipientAddress, setResolvedRecipientAddress] = useState('');
   const [amount, setAmount] = useState('');
   const [message, setMessage] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [result, setResult] = useState<{ success: boolean; hash?: string; error?: string } | null>(null);
+  const [appliedRequest, setAppliedRequest] = useState<PaymentRequest | null>(null);
   const { toast } = useToast();
 
+  const applyPaymentRequest = (request: PaymentRequest) => {
+    const [recipient] = request.recipients;
+    setRecipientAddress(recipient.address);
+    setResolvedRecipientAddress('');
+    setAmount(recipient.amount || '');
+    setMessage(recipient.message || '');
+    setResult(null);
+    setAppliedRequest(request);
+  };
+
+  // Applied once, so the form can't be refilled after the payment was sent
+  useEffect(() => {
+    if (!paymentRequest) return;
+    applyPaymentRequest(paymentRequest);
+    onPaymentRequestApplied?.();
+  }, [paymentRequest, onPaymentRequestApplied]);
+
+  const handleScannedPaymentRequest = (request: PaymentRequest) => {
+    if (request.recipients.length > 1) {
+      toast({
+        title: "Multiple Recipients",
+        description: `This payment link pays ${request.recipients.length} recipients. Open it in Multi Send instead.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    applyPaymentRequest(request);
+  };
+
   const validateAddress = (address: string) => {
     // Octra address validation (starts with 'oct' and has specific format)
     const octAddressRegex = /^oct[1-9A-HJ-NP-Za-km-z]{44}$/;
@@ -121,21 +155,24 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
     setResult(null);
 
     try {
-      // Refresh nonce before sending like CLI does
-      const freshBalanceData = await fetchBalance(wallet.address);
-      const currentNonce = freshBalanceData.nonce;
-
-      const transaction = createTransaction(
-        wallet.address,
-        finalRecipientAddress,
-        amountNum,
-        currentNonce + 1,
-        wallet.privateKey,
-        wallet.publicKey || '',
-        message || undefined
-      );
-
-      const sendResult = await sendTransaction(transaction);
+      // Block the send if the domain now points somewhere other than the previewed address
+      const changedDomains = await findChangedDomainRecords([{ name: recipientAddress, address: finalRecipientAddress }]);
+      if (changedDomains.length > 0) {
+        toast({
+          title: "Domain Record Changed",
+          description: `${changedDomains[0]} no longer resolves to the previewed address. Review the recipient and try again.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // The queue allocates the nonce so concurrent sends from other tabs cannot collide
+      const [entry] = await submitTransactions(wallet, [
+        { to: finalRecipientAddress, amount: amountNum, message: message || undefined }
+      ]);
+      const sendResult = entry.status === 'pending'
+        ? { success: true, hash: entry.hash }
+        : { success: false, error: entry.error };
 
       setResult(sendResult);
 
@@ -149,9 +186,10 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
         setRecipientAddress('');
         setAmount('');
         setMessage('');
+        setAppliedRequest(null);
 
         // Update nonce
-        onNonceUpdate(currentNonce + 1);
+        onNonceUpdate(entry.nonce);
 
         // Update balance after successful transaction
         setTimeout(async () => {
@@ -224,6 +262,17 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
           </div>
         </Alert>
 
+        {appliedRequest && (
+          <Alert>
+            <div className="flex items-start space-x-3">
+              <Link className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <AlertDescription>
+                Filled in from a payment link{appliedRequest.label ? ` by "${appliedRequest.label}"` : ''}. Review every field before sending.
+              </AlertDescription>
+            </div>
+          </Alert>
+        )}
+
         {/* Wallet Info */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-2">
@@ -247,7 +296,8 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
             value={recipientAddress}
             onChange={setRecipientAddress}
             onResolvedAddress={setResolvedRecipientAddress}
-            placeholder="oct..."
+            onPaymentRequest={handleScannedPaymentRequest}
+            placeholder="oct... or name.oct"
           />
         </div>
 
@@ -296,6 +346,12 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
               Fee Calculation
             </div>
             <div className="space-y-1 text-xs sm:text-sm">
+              {isDomainName(recipientAddress) && resolvedRecipientAddress && (
+                <div className="flex justify-between items-center gap-2">
+                  <span>Recipient:</span>
+                  <span className="font-mono break-all text-right">{resolvedRecipientAddress}</span>
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span>Amount:</span>
                 <span className="font-mono">{amountNum.toFixed(8)} OCT</span>
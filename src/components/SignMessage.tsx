@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { FileSignature, Copy, CheckCircle, AlertTriangle, Loader2, ShieldCheck } from 'lucide-react';
+import { SignedMessage, Wallet } from '../types/wallet';
+import { exportSignedMessage, parseSignedMessage, signMessage, verifySignedMessage } from '../utils/message';
+import { useToast } from '@/hooks/use-toast';
+
+interface SignMessageProps {
+  wallet: Wallet;
+}
+
+export function SignMessage({ wallet }: SignMessageProps) {
+  const [message, setMessage] = useState('');
+  const [signedBlob, setSignedBlob] = useState('');
+  const [verifyInput, setVerifyInput] = useState('');
+  const [expectedAddress, setExpectedAddress] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [verification, setVerification] = useState<{ valid: boolean; error?: string; signed?: SignedMessage } | null>(null);
+  const { toast } = useToast();
+
+  const handleSign = () => {
+    try {
+      setSignedBlob(exportSignedMessage(signMessage(wallet, message)));
+    } catch (error) {
+      console.error('Message signing error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign message",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleVerify = async () => {
+    setVerification(null);
+
+    let signed: SignedMessage;
+    try {
+      signed = parseSignedMessage(verifyInput);
+    } catch (error) {
+      setVerification({ valid: false, error: error instanceof Error ? error.message : 'Unable to parse input' });
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const result = await verifySignedMessage(signed, expectedAddress.trim() || undefined);
+      setVerification({ ...result, signed });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const copyToClipboard = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied!",
+        description: "Signed message copied to clipboard",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Copy failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSignature className="h-5 w-5" />
+          Sign & Verify Message
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="sign" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="sign">Sign</TabsTrigger>
+            <TabsTrigger value="verify">Verify Signature</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="sign" className="mt-4 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sign-message">Message</Label>
+              <Textarea
+                id="sign-message"
+                placeholder="Paste the challenge or text to sign"
+                value={message}
+                onChange={(e) => {
+                  setMessage(e.target.value);
+                  setSignedBlob('');
+                }}
+                rows={4}
+              />
+              <p className="text-xs text-muted-foreground">
+                Messages are signed with a fixed prefix, so the signature can never be submitted as a transaction.
+              </p>
+            </div>
+
+            <Button onClick={handleSign} disabled={!message} className="w-full">
+              Sign with {wallet.address.slice(0, 8)}...{wallet.address.slice(-6)}
+            </Button>
+
+            {signedBlob && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Signed Message</Label>
+                  <Button variant="ghost" size="sm" onClick={() => copyToClipboard(signedBlob)}>
+                    <Copy className="h-4 w-4 mr-1" />
+                    Copy
+                  </Button>
+                </div>
+                <Textarea value={signedBlob} readOnly rows={8} className="font-mono text-xs" />
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="verify" className="mt-4 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="verify-blob">Signed Message</Label>
+              <Textarea
+                id="verify-blob"
+                placeholder='{"type": "octra-signed-message", ...}'
+                value={verifyInput}
+                onChange={(e) => {
+                  setVerifyInput(e.target.value);
+                  setVerification(null);
+                }}
+                rows={6}
+                className="font-mono text-xs"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="verify-address">Expected Address (optional)</Label>
+              <Input
+                id="verify-address"
+                placeholder="oct..."
+                value={expectedAddress}
+                onChange={(e) => {
+                  setExpectedAddress(e.target.value);
+                  setVerification(null);
+                }}
+                className="font-mono"
+              />
+            </div>
+
+            <Button onClick={handleVerify} disabled={!verifyInput || isVerifying} className="w-full">
+              {isVerifying ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                <>
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  Verify Signature
+                </>
+              )}
+            </Button>
+
+            {verification && (
+              <Alert variant={verification.valid ? 'default' : 'destructive'}>
+                <div className="flex items-start space-x-3">
+                  {verification.valid ? (
+                    <CheckCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-green-600" />
+                  ) : (
+                    <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  )}
+                  <AlertDescription className="break-all">
+                    {verification.valid
+                      ? `Valid signature by ${verification.signed?.address}`
+                      : verification.error}
+                  </AlertDescription>
+                </div>
+              </Alert>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
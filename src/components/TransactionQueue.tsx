@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ListOrdered, AlertTriangle, RefreshCw, Trash2, ExternalLink, Loader2 } from 'lucide-react';
+import { QueuedTransaction, QueuedTransactionStatus, Wallet } from '../types/wallet';
+import {
+  discardQueuedTransaction,
+  findNonceGaps,
+  getQueuedTransactions,
+  retryQueuedTransaction,
+  TX_QUEUE_STORAGE_KEY,
+  TX_QUEUE_UPDATED_EVENT
+} from '../utils/txQueue';
+import { useToast } from '@/hooks/use-toast';
+
+interface TransactionQueueProps {
+  wallet: Wallet | null;
+}
+
+const STATUS_VARIANTS: Record<QueuedTransactionStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  pending: 'secondary',
+  confirmed: 'default',
+  failed: 'destructive',
+  dropped: 'destructive'
+};
+
+export function TransactionQueue({ wallet }: TransactionQueueProps) {
+  const [entries, setEntries] = useState<QueuedTransaction[]>([]);
+  const [nonceGaps, setNonceGaps] = useState<number[]>([]);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Re-read on local queue changes and on writes from other tabs
+  useEffect(() => {
+    if (!wallet) return;
+
+    const refresh = () => {
+      setEntries(getQueuedTransactions(wallet.address).filter(e => e.status !== 'confirmed'));
+      setNonceGaps(findNonceGaps(wallet.address));
+    };
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === TX_QUEUE_STORAGE_KEY) refresh();
+    };
+
+    refresh();
+    window.addEventListener(TX_QUEUE_UPDATED_EVENT, refresh);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(TX_QUEUE_UPDATED_EVENT, refresh);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [wallet]);
+
+  const handleRetry = async (entry: QueuedTransaction) => {
+    setRetryingId(entry.id);
+    try {
+      const result = await retryQueuedTransaction(entry.id, wallet || undefined);
+      if (result?.status === 'pending') {
+        toast({
+          title: "Transaction Rebroadcast",
+          description: `Nonce ${entry.nonce} has been resubmitted`,
+        });
+      } else {
+        toast({
+          title: "Rebroadcast Failed",
+          description: result?.error || "Unknown error occurred",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  if (!wallet || entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListOrdered className="h-5 w-5" />
+          Outgoing Queue
+          <Badge variant="secondary" className="text-xs">{entries.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {nonceGaps.length > 0 && (
+          <Alert variant="destructive">
+            <div className="flex items-start space-x-3">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <AlertDescription>
+                Nonce gap at {nonceGaps.join(', ')}. Later transactions cannot confirm until {nonceGaps.length === 1 ? 'it is' : 'these are'} rebroadcast.
+              </AlertDescription>
+            </div>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border rounded-md">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant={STATUS_VARIANTS[entry.status]} className="text-xs capitalize">{entry.status}</Badge>
+                  <span className="text-xs text-muted-foreground font-mono">nonce {entry.nonce}</span>
+                </div>
+                <div className="text-sm font-mono truncate">
+                  {entry.amount.toFixed(6)} OCT → {entry.to}
+                </div>
+                {entry.error && (
+                  <div className="text-xs text-red-600 break-words">{entry.error}</div>
+                )}
+              </div>
+              <div className="flex items-center gap-1 self-end sm:self-auto">
+                {entry.hash && (
+                  <a
+                    href={`https://octrascan.io/tx/${entry.hash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center justify-center h-8 w-8 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                    title="View on OctraScan"
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                )}
+                {(entry.status === 'failed' || entry.status === 'dropped') && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRetry(entry)}
+                      disabled={retryingId === entry.id}
+                      title="Rebroadcast"
+                    >
+                      {retryingId === entry.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => discardQueuedTransaction(entry.id)}
+                      className="text-red-500 hover:text-red-700"
+                      title="Discard"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
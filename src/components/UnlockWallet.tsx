@@ -4,7 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Shield, Eye, EyeOff, Loader2 } from 'lucide-react';
-import { verifyPassword, decryptWalletData } from '../utils/password';
+import { verifyStoredPassword, decryptWalletData, migrateVault } from '../utils/password';
+import { startSession } from '../utils/session';
 import { Wallet } from '../types/wallet';
 import { useToast } from '@/hooks/use-toast';
 
@@ -31,15 +32,8 @@ export function UnlockWallet({ onUnlock }: UnlockWalletProps) {
     setIsUnlocking(true);
 
     try {
-      const hashedPassword = localStorage.getItem('walletPasswordHash');
-      const salt = localStorage.getItem('walletPasswordSalt');
-      
-      if (!hashedPassword || !salt) {
-        throw new Error('No password set');
-      }
-
       // Verify password
-      const isValid = await verifyPassword(password, hashedPassword, salt);
+      const isValid = await verifyStoredPassword(password);
       
       if (!isValid) {
         toast({
@@ -50,6 +44,15 @@ export function UnlockWallet({ onUnlock }: UnlockWalletProps) {
         return;
       }
 
+      // Upgrade legacy keystore entries to the current KDF now that the password is known
+      const migratedCount = await migrateVault(password);
+      if (migratedCount > 0) {
+        toast({
+          title: "Keystore Upgraded",
+          description: `${migratedCount} wallet${migratedCount !== 1 ? 's' : ''} re-encrypted with stronger key derivation`,
+        });
+      }
+
       // Decrypt wallets
       const encryptedWallets = JSON.parse(localStorage.getItem('encryptedWallets') || '[]');
       const decryptedWallets: Wallet[] = [];
@@ -64,16 +67,15 @@ export function UnlockWallet({ onUnlock }: UnlockWalletProps) {
         }
       }
 
-      // Mark wallet as unlocked
-      localStorage.setItem('isWalletLocked', 'false');
-      localStorage.setItem('wallets', JSON.stringify(decryptedWallets));
+      // Keep decrypted wallets in memory only for this session
+      const sessionWallets = await startSession(decryptedWallets, password);
       
       toast({
         title: "Wallet Unlocked!",
         description: "Welcome back to your wallet",
       });
 
-      onUnlock(decryptedWallets);
+      onUnlock(sessionWallets);
     } catch (error) {
       console.error('Unlock error:', error);
       toast({
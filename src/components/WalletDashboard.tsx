@@ -21,21 +21,41 @@ import {
   Trash2,
   Check,
   Wifi,
-  Download
+  Download,
+  Lock,
+  Timer,
+  UserPlus,
+  Globe,
+  QrCode
 } from 'lucide-react';
 import { Balance } from './Balance';
 import { MultiSend } from './MultiSend';
 import { SendTransaction } from './SendTransaction';
 import { PrivateTransfer } from './PrivateTransfer';
+import { PrivateMultiSend } from './PrivateMultiSend';
 import { ClaimTransfers } from './ClaimTransfers';
+import { AutoClaimRules } from './AutoClaimRules';
+import { ClaimHistory } from './ClaimHistory';
 import { FileMultiSend } from './FileMultiSend';
+import { OfflineSign } from './OfflineSign';
+import { BroadcastTransaction } from './BroadcastTransaction';
 import { TxHistory } from './TxHistory';
+import { TransactionQueue } from './TransactionQueue';
+import { SignMessage } from './SignMessage';
+import { Receive } from './Receive';
 import { ThemeToggle } from './ThemeToggle';
 import { ImportWallet } from './ImportWallet';
 import { GenerateWallet } from './GenerateWallet';
 import { RPCProviderManager } from './RPCProviderManager';
-import { Wallet } from '../types/wallet';
+import { AutoLockSettings } from './AutoLockSettings';
+import { ConnectedDApps } from './ConnectedDApps';
+import { PaymentRequest, Wallet } from '../types/wallet';
 import { fetchBalance, getTransactionHistory } from '../utils/api';
+import { deriveNextAccount } from '../utils/wallet';
+import { watchTransactionQueue } from '../utils/txQueue';
+import { CLAIM_INBOX_STORAGE_KEY, CLAIM_INBOX_UPDATED_EVENT, getUnreadClaimCount, watchClaimInbox } from '../utils/claimInbox';
+import { getLastRPCProviderUsage, RPC_PROVIDER_USED_EVENT, RPCProviderUsage } from '../utils/rpc';
+import { parsePaymentUri } from '../utils/paymentUri';
 import { useToast } from '@/hooks/use-toast';
 
 interface Transaction {
@@ -52,18 +72,24 @@ interface WalletDashboardProps {
   wallet: Wallet;
   wallets: Wallet[];
   onDisconnect: () => void;
+  onLock: () => void;
   onSwitchWallet: (wallet: Wallet) => void;
   onAddWallet: (wallet: Wallet) => void;
   onRemoveWallet: (wallet: Wallet) => void;
+  paymentUri?: string | null;
+  onPaymentUriHandled?: () => void;
 }
 
 export function WalletDashboard({ 
   wallet, 
   wallets, 
   onDisconnect, 
+  onLock,
   onSwitchWallet, 
   onAddWallet, 
-  onRemoveWallet 
+  onRemoveWallet,
+  paymentUri,
+  onPaymentUriHandled
 }: WalletDashboardProps) {
   const [activeTab, setActiveTab] = useState<string>('overview');
   const [balance, setBalance] = useState<number | null>(null);
@@ -74,9 +100,74 @@ export function WalletDashboard({
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [showAddWalletDialog, setShowAddWalletDialog] = useState(false);
   const [showRPCManager, setShowRPCManager] = useState(false);
+  const [showAutoLockSettings, setShowAutoLockSettings] = useState(false);
+  const [showConnectedDApps, setShowConnectedDApps] = useState(false);
   const [addWalletTab, setAddWalletTab] = useState('import');
+  const [sendTab, setSendTab] = useState('single');
+  const [paymentRequest, setPaymentRequest] = useState<PaymentRequest | null>(null);
+  const [rpcUsage, setRpcUsage] = useState<RPCProviderUsage | null>(getLastRPCProviderUsage());
+  const [unreadClaims, setUnreadClaims] = useState(0);
   const { toast } = useToast();
 
+  // Track which RPC provider served the most recent request
+  useEffect(() => {
+    const handleProviderUsed = (event: Event) => {
+      setRpcUsage((event as CustomEvent<RPCProviderUsage>).detail);
+    };
+
+    window.addEventListener(RPC_PROVIDER_USED_EVENT, handleProviderUsed);
+    return () => window.removeEventListener(RPC_PROVIDER_USED_EVENT, handleProviderUsed);
+  }, []);
+
+  // Keep confirming, rebroadcasting and resuming queued transactions while the wallet is open
+  useEffect(() => watchTransactionQueue(), []);
+
+  // Poll every wallet's incoming private transfers and apply its auto-claim rule
+  useEffect(() => watchClaimInbox(wallets, (entries) => {
+    const claimed = entries.filter(e => e.status === 'claimed');
+    if (claimed.length > 0) {
+      toast({
+        title: "Transfers Auto-Claimed",
+        description: `Claimed ${claimed.length} incoming private transfer${claimed.length !== 1 ? 's' : ''}`,
+      });
+    }
+  }), [wallets, toast]);
+
+  useEffect(() => {
+    if (!wallet) return;
+
+    const refresh = () => setUnreadClaims(getUnreadClaimCount(wallet.address));
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === CLAIM_INBOX_STORAGE_KEY) refresh();
+    };
+
+    refresh();
+    window.addEventListener(CLAIM_INBOX_UPDATED_EVENT, refresh);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(CLAIM_INBOX_UPDATED_EVENT, refresh);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [wallet]);
+
+  // A payment link only prefills the send form; the user still reviews and sends it
+  useEffect(() => {
+    if (!paymentUri) return;
+    try {
+      const request = parsePaymentUri(paymentUri);
+      setPaymentRequest(request);
+      setSendTab(request.recipients.length > 1 ? 'multi' : 'single');
+      setActiveTab('send');
+    } catch (error) {
+      toast({
+        title: "Invalid Payment Link",
+        description: error instanceof Error ? error.message : "Unable to read payment link",
+        variant: "destructive",
+      });
+    }
+    onPaymentUriHandled?.();
+  }, [paymentUri, onPaymentUriHandled, toast]);
+
   // Initial data fetch when wallet is connected
   useEffect(() => {
     const fetchInitialData = async () => {
@@ -167,8 +258,12 @@ export function WalletDashboard({
     }
   };
 
-  const handleImportSuccess = (newWallet: Wallet) => {
+  const handleImportSuccess = (newWallet: Wallet, additionalAccounts: Wallet[] = []) => {
     onAddWallet(newWallet);
+    if (additionalAccounts.length > 0) {
+      additionalAccounts.forEach(onAddWallet);
+      onSwitchWallet(newWallet);
+    }
     setShowAddWalletDialog(false);
     toast({
       title: "Wallet Added",
@@ -176,6 +271,32 @@ export function WalletDashboard({
     });
   };
 
+  // Unlike other imports the dialog stays open, so the restore report and its conflicts can be read
+  const handleBackupRestored = (walletsToAdd: Wallet[], walletsToRemove: Wallet[]) => {
+    walletsToRemove.forEach(onRemoveWallet);
+    walletsToAdd.forEach(onAddWallet);
+  };
+
+  const handleAddAccount = async () => {
+    if (!wallet.mnemonic) return;
+
+    try {
+      const account = await deriveNextAccount(wallet.mnemonic, wallets);
+      onAddWallet(account);
+      toast({
+        title: "Account Added",
+        description: `Account #${account.derivationIndex} derived from your mnemonic`,
+      });
+    } catch (error) {
+      console.error('Account derivation error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to derive account",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleGenerateSuccess = (newWallet: Wallet) => {
     onAddWallet(newWallet);
     setShowAddWalletDialog(false);
@@ -287,7 +408,7 @@ export function WalletDashboard({
                                 </div>
                                 {w.mnemonic && (
                                   <div className="text-xs text-muted-foreground mt-1">
-                                    Generated wallet
+                                    Generated wallet · Account {w.derivationIndex ?? 0}
                                   </div>
                                 )}
                               </div>
@@ -323,6 +444,15 @@ export function WalletDashboard({
                           ))}
                         </div>
                         <DropdownMenuSeparator />
+                        {wallet.mnemonic && (
+                          <div
+                            onClick={handleAddAccount}
+                            className="flex items-center justify-center space-x-2 p-3 cursor-pointer hover:bg-accent hover:text-accent-foreground rounded-sm mx-1"
+                          >
+                            <UserPlus className="h-4 w-4" />
+                            <span>Add Account</span>
+                          </div>
+                        )}
                         <div
                           onClick={() => setShowAddWalletDialog(true)}
                           className="flex items-center justify-center space-x-2 p-3 cursor-pointer hover:bg-accent hover:text-accent-foreground rounded-sm mx-1 mb-1"
@@ -353,6 +483,15 @@ export function WalletDashboard({
                 <Badge variant="outline" className="hidden sm:inline-flex text-xs">
                   {wallets.length} Wallet{wallets.length !== 1 ? 's' : ''}
                 </Badge>
+                {rpcUsage && (
+                  <Badge
+                    variant={rpcUsage.failedOver ? 'destructive' : 'outline'}
+                    className="hidden lg:inline-flex text-xs"
+                    title={rpcUsage.failedOver ? 'Primary provider unavailable, served by fallback' : rpcUsage.provider.url}
+                  >
+                    RPC: {rpcUsage.provider.name}
+                  </Badge>
+                )}
               </div>
             </div>
 
@@ -395,7 +534,7 @@ export function WalletDashboard({
                         <ScrollArea className="h-full max-h-[calc(90vh-180px)]">
                           <div className="pr-4">
                             <TabsContent value="import" className="mt-4 data-[state=inactive]:hidden">
-                              <ImportWallet onWalletImported={handleImportSuccess} />
+                              <ImportWallet onWalletImported={handleImportSuccess} onBackupRestored={handleBackupRestored} />
                             </TabsContent>
                             
                             <TabsContent value="generate" className="mt-4 data-[state=inactive]:hidden">
@@ -416,6 +555,50 @@ export function WalletDashboard({
                   <RPCProviderManager onClose={() => setShowRPCManager(false)} />
                 </DialogContent>
               </Dialog>
+              <Dialog open={showAutoLockSettings} onOpenChange={setShowAutoLockSettings}>
+                <DialogContent className="sm:max-w-md">
+                  <DialogHeader>
+                    <DialogTitle>Session Settings</DialogTitle>
+                  </DialogHeader>
+                  <AutoLockSettings onClose={() => setShowAutoLockSettings(false)} />
+                </DialogContent>
+              </Dialog>
+              <Dialog open={showConnectedDApps} onOpenChange={setShowConnectedDApps}>
+                <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>Connected Sites</DialogTitle>
+                  </DialogHeader>
+                  <ConnectedDApps wallets={wallets} />
+                </DialogContent>
+              </Dialog>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowConnectedDApps(true)}
+                className="hidden sm:flex items-center gap-2"
+                title="Connected sites"
+              >
+                <Globe className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowAutoLockSettings(true)}
+                className="hidden sm:flex items-center gap-2"
+                title="Auto-lock settings"
+              >
+                <Timer className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onLock}
+                className="flex items-center gap-2"
+                title="Lock now"
+              >
+                <Lock className="h-4 w-4" />
+                <span className="hidden md:inline">Lock</span>
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -433,7 +616,7 @@ export function WalletDashboard({
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8 max-w-6xl">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="overview" className="flex items-center gap-2">
               <PieChart className="h-4 w-4" />
               <span className="hidden sm:inline">Overview</span>
@@ -442,6 +625,10 @@ export function WalletDashboard({
               <Send className="h-4 w-4" />
               <span className="hidden sm:inline">Send</span>
             </TabsTrigger>
+            <TabsTrigger value="receive" className="flex items-center gap-2">
+              <QrCode className="h-4 w-4" />
+              <span className="hidden sm:inline">Receive</span>
+            </TabsTrigger>
             <TabsTrigger value="private" className="flex items-center gap-2">
               <Shield className="h-4 w-4" />
               <span className="hidden sm:inline">Private</span>
@@ -449,6 +636,9 @@ export function WalletDashboard({
             <TabsTrigger value="claim" className="flex items-center gap-2">
               <Gift className="h-4 w-4" />
               <span className="hidden sm:inline">Claim</span>
+              {unreadClaims > 0 && (
+                <Badge variant="destructive" className="h-5 px-1.5 text-xs">{unreadClaims}</Badge>
+              )}
             </TabsTrigger>
             <TabsTrigger value="history" className="flex items-center gap-2">
               <History className="h-4 w-4" />
@@ -463,14 +653,16 @@ export function WalletDashboard({
               onBalanceUpdate={handleBalanceUpdate}
               isLoading={isLoadingBalance}
             />
+            <SignMessage wallet={wallet} />
           </TabsContent>
 
           <TabsContent value="send">
-            <Tabs defaultValue="single" className="w-full">
-              <TabsList className="grid w-full grid-cols-3">
+            <Tabs value={sendTab} onValueChange={setSendTab} className="w-full">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="single">Single Send</TabsTrigger>
                 <TabsTrigger value="multi">Multi Send</TabsTrigger>
                 <TabsTrigger value="file">File Multi Send</TabsTrigger>
+                <TabsTrigger value="offline">Offline</TabsTrigger>
               </TabsList>
               
               <TabsContent value="single" className="mt-6">
@@ -481,6 +673,8 @@ export function WalletDashboard({
                   onBalanceUpdate={handleBalanceUpdate}
                   onNonceUpdate={handleNonceUpdate}
                   onTransactionSuccess={handleTransactionSuccess}
+                  paymentRequest={paymentRequest?.recipients.length === 1 ? paymentRequest : null}
+                  onPaymentRequestApplied={() => setPaymentRequest(null)}
                 />
               </TabsContent>
               
@@ -492,6 +686,8 @@ export function WalletDashboard({
                   onBalanceUpdate={handleBalanceUpdate}
                   onNonceUpdate={handleNonceUpdate}
                   onTransactionSuccess={handleTransactionSuccess}
+                  paymentRequest={paymentRequest && paymentRequest.recipients.length > 1 ? paymentRequest : null}
+                  onPaymentRequestApplied={() => setPaymentRequest(null)}
                 />
               </TabsContent>
               
@@ -505,25 +701,53 @@ export function WalletDashboard({
                   onTransactionSuccess={handleTransactionSuccess}
                 />
               </TabsContent>
+
+              <TabsContent value="offline" className="mt-6 space-y-6">
+                <OfflineSign wallet={wallet} />
+                <BroadcastTransaction onTransactionSuccess={handleTransactionSuccess} />
+              </TabsContent>
             </Tabs>
           </TabsContent>
 
+          <TabsContent value="receive">
+            <Receive wallet={wallet} />
+          </TabsContent>
+
           <TabsContent value="private">
-            <PrivateTransfer
-              wallet={wallet}
-              onTransactionSuccess={handleTransactionSuccess}
-            />
+            <Tabs defaultValue="single" className="w-full">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="single">Single Transfer</TabsTrigger>
+                <TabsTrigger value="multi">Multi Send</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="single" className="mt-6">
+                <PrivateTransfer
+                  wallet={wallet}
+                  onTransactionSuccess={handleTransactionSuccess}
+                />
+              </TabsContent>
+
+              <TabsContent value="multi" className="mt-6">
+                <PrivateMultiSend
+                  wallet={wallet}
+                  onTransactionSuccess={handleTransactionSuccess}
+                />
+              </TabsContent>
+            </Tabs>
           </TabsContent>
 
-          <TabsContent value="claim">
+          <TabsContent value="claim" className="space-y-6">
             <ClaimTransfers
               wallet={wallet}
               onTransactionSuccess={handleTransactionSuccess}
             />
+            <AutoClaimRules wallet={wallet} />
+            <ClaimHistory wallet={wallet} />
           </TabsContent>
 
 
           <TabsContent value="history">
+            <TransactionQueue wallet={wallet} />
             <TxHistory 
               wallet={wallet} 
               transactions={transactions}
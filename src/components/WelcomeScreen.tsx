@@ -6,8 +6,10 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { GenerateWallet } from './GenerateWallet';
 import { ImportWallet } from './ImportWallet';
 import { PasswordSetup } from './PasswordSetup';
-import { Wallet as WalletIcon, Plus, Download, Info } from 'lucide-react';
+import { BroadcastTransaction } from './BroadcastTransaction';
+import { Wallet as WalletIcon, Plus, Download, Info, Radio } from 'lucide-react';
 import { Wallet } from '../types/wallet';
+import { getSessionWallets } from '../utils/session';
 
 interface WelcomeScreenProps {
   onWalletCreated: (wallet: Wallet) => void;
@@ -16,28 +18,33 @@ interface WelcomeScreenProps {
 export function WelcomeScreen({ onWalletCreated }: WelcomeScreenProps) {
   const [activeTab, setActiveTab] = useState<string>('generate');
   const [pendingWallet, setPendingWallet] = useState<Wallet | null>(null);
+  const [pendingAccounts, setPendingAccounts] = useState<Wallet[]>([]);
   const [showPasswordSetup, setShowPasswordSetup] = useState(false);
   
   // Check if there are existing wallets
   const hasExistingWallets = () => {
-    const storedWallets = localStorage.getItem('wallets');
-    return storedWallets && JSON.parse(storedWallets).length > 0;
+    return getSessionWallets().length > 0;
   };
 
-  const handleWalletGenerated = (wallet: Wallet) => {
+  const handleWalletGenerated = (wallet: Wallet, additionalAccounts: Wallet[] = []) => {
     setPendingWallet(wallet);
+    setPendingAccounts(additionalAccounts);
     setShowPasswordSetup(true);
   };
 
   const handlePasswordSet = (wallet: Wallet) => {
     setShowPasswordSetup(false);
     setPendingWallet(null);
+    setPendingAccounts([]);
     onWalletCreated(wallet);
+    // The session is unlocked now, so discovered accounts are encrypted with the new password
+    pendingAccounts.forEach(onWalletCreated);
   };
 
   const handleBackToWalletCreation = () => {
     setShowPasswordSetup(false);
     setPendingWallet(null);
+    setPendingAccounts([]);
   };
 
   if (showPasswordSetup && pendingWallet) {
@@ -90,7 +97,7 @@ export function WelcomeScreen({ onWalletCreated }: WelcomeScreenProps) {
           </CardHeader>
           <CardContent>
             <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-              <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsList className="grid w-full grid-cols-3 mb-6">
                 <TabsTrigger value="generate" className="flex items-center gap-2">
                   <Plus className="h-4 w-4" />
                   Create New Wallet
@@ -99,6 +106,10 @@ export function WelcomeScreen({ onWalletCreated }: WelcomeScreenProps) {
                   <Download className="h-4 w-4" />
                   Import Wallet
                 </TabsTrigger>
+                <TabsTrigger value="broadcast" className="flex items-center gap-2">
+                  <Radio className="h-4 w-4" />
+                  Broadcast
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="generate" className="space-y-4">
@@ -115,11 +126,21 @@ export function WelcomeScreen({ onWalletCreated }: WelcomeScreenProps) {
                 <div className="text-center mb-4">
                   <h3 className="text-lg font-semibold mb-2">Import Existing Wallet</h3>
                   <p className="text-sm text-muted-foreground">
-                    Restore your wallet using a private key or mnemonic phrase
+                    Restore your wallet using a private key, mnemonic phrase or encrypted backup file
                   </p>
                 </div>
                 <ImportWallet onWalletImported={handleWalletGenerated} />
               </TabsContent>
+
+              <TabsContent value="broadcast" className="space-y-4">
+                <div className="text-center mb-4">
+                  <h3 className="text-lg font-semibold mb-2">Broadcast Signed Transaction</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Submit a transaction signed on an offline device without importing its key
+                  </p>
+                </div>
+                <BroadcastTransaction />
+              </TabsContent>
             </Tabs>
           </CardContent>
         </Card>
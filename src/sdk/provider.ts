@@ -0,0 +1,142 @@
+// dApp-side client for the wallet's postMessage provider. dApps bundle this file and call
+// injectOctraProvider({ walletUrl }) to get window.octra.
+import { ConnectionProof, ProviderError, ProviderEvent, ProviderMessage, ProviderMethod, SignedMessage } from '../types/wallet';
+
+const CHANNEL = 'octra-provider';
+const DISCONNECTED = 4900;
+
+export interface OctraProviderOptions {
+  walletUrl: string;
+  appName?: string;
+  appIcon?: string;
+}
+
+export interface OctraTransactionRequest {
+  to: string;
+  amount: number | string;
+  message?: string;
+}
+
+export interface OctraProvider {
+  // Pass a fresh server-issued nonce to get a proof the backend can check with verifyConnectionProof
+  connect: (nonce?: string) => Promise<{ address: string; publicKey: string; proof?: ConnectionProof }>;
+  getAccounts: () => Promise<string[]>;
+  getBalance: () => Promise<{ address: string; balance: number; nonce: number }>;
+  signMessage: (message: string) => Promise<SignedMessage>;
+  sendTransaction: (transaction: OctraTransactionRequest) => Promise<{ hash: string; nonce: number }>;
+  on: (event: ProviderEvent, listener: (data: unknown) => void) => void;
+  off: (event: ProviderEvent, listener: (data: unknown) => void) => void;
+  close: () => void;
+}
+
+declare global {
+  interface Window {
+    octra?: OctraProvider;
+  }
+}
+
+function providerError(error: ProviderError): Error & ProviderError {
+  return Object.assign(new Error(error.message), { code: error.code });
+}
+
+export function createOctraProvider(options: OctraProviderOptions): OctraProvider {
+  const walletOrigin = new URL(options.walletUrl).origin;
+  const pending = new Map<string, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+  const listeners = new Map<ProviderEvent, Set<(data: unknown) => void>>();
+
+  let target: Window | null = null;
+  let ready: Promise<void> | null = null;
+  let markReady: (() => void) | null = null;
+  let closedWatcher: ReturnType<typeof setInterval> | null = null;
+  let requestCount = 0;
+
+  const reset = (reason: string) => {
+    if (closedWatcher) clearInterval(closedWatcher);
+    closedWatcher = null;
+    target = null;
+    ready = null;
+    pending.forEach(({ reject }) => reject(providerError({ code: DISCONNECTED, message: reason })));
+    pending.clear();
+  };
+
+  const open = (): Promise<void> => {
+    if (ready && target && !target.closed) return ready;
+
+    const url = new URL(options.walletUrl);
+    url.searchParams.set('provider', 'popup');
+    url.searchParams.set('origin', window.location.origin);
+    ready = new Promise(resolve => { markReady = resolve; });
+
+    target = window.open(url.toString(), 'octra-wallet', 'width=420,height=720');
+    if (!target) {
+      ready = null;
+      return Promise.reject(providerError({ code: DISCONNECTED, message: 'The wallet popup was blocked' }));
+    }
+    closedWatcher = setInterval(() => {
+      if (target?.closed) reset('The wallet window was closed');
+    }, 500);
+
+    return ready;
+  };
+
+  window.addEventListener('message', (event: MessageEvent) => {
+    // Only the wallet window this provider opened, at the wallet's own origin
+    if (!target || event.source !== target || event.origin !== walletOrigin) return;
+
+    const data = event.data as ProviderMessage;
+    if (!data || data.channel !== CHANNEL) return;
+
+    if (data.event) {
+      if (data.event === 'ready') markReady?.();
+      listeners.get(data.event)?.forEach(listener => listener(data.data));
+      return;
+    }
+
+    const request = data.id ? pending.get(data.id) : undefined;
+    if (!request) return;
+    pending.delete(data.id!);
+    if (data.error) {
+      request.reject(providerError(data.error));
+    } else {
+      request.resolve(data.result);
+    }
+  });
+
+  const request = async <T>(method: ProviderMethod, params?: Record<string, unknown>): Promise<T> => {
+    await open();
+    const id = `${Date.now()}-${requestCount++}`;
+
+    return new Promise<T>((resolve, reject) => {
+      pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+      target!.postMessage({ channel: CHANNEL, id, method, params }, walletOrigin);
+      if (method !== 'getAccounts' && method !== 'getBalance') {
+        target!.focus();
+      }
+    });
+  };
+
+  return {
+    connect: (nonce) => request('connect', { appName: options.appName, appIcon: options.appIcon, nonce }),
+    getAccounts: () => request('getAccounts'),
+    getBalance: () => request('getBalance'),
+    signMessage: (message) => request('signMessage', { message }),
+    sendTransaction: (transaction) => request('sendTransaction', { ...transaction }),
+    on: (event, listener) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+    },
+    off: (event, listener) => {
+      listeners.get(event)?.delete(listener);
+    },
+    close: () => {
+      target?.close();
+      reset('The provider was closed');
+    }
+  };
+}
+
+export function injectOctraProvider(options: OctraProviderOptions): OctraProvider {
+  window.octra = createOctraProvider(options);
+  window.dispatchEvent(new Event('octra#initialized'));
+  return window.octra;
+}
@@ -0,0 +1,63 @@
+// Server-side check for the proof a wallet returns when a dApp connects with a nonce. The dApp backend
+// issues the nonce, stores it, and verifies the response before trusting the account.
+import * as nacl from 'tweetnacl';
+import { ConnectionProof } from '../types/wallet';
+import { createOctraAddress } from '../utils/crypto';
+import { getConnectionProofSigningBytes } from '../utils/message';
+
+export interface ConnectionProofExpectations {
+  origin: string; // the dApp's own origin, never taken from the response
+  nonce: string;
+  maxAgeMs?: number;
+  now?: number;
+}
+
+const DEFAULT_MAX_AGE_MS = 5 * 60 * 1000;
+const CLOCK_SKEW_MS = 60 * 1000;
+
+// Reads the proof from the redirect flow's success URL (account_id, public_key, nonce, timestamp, signature)
+export function readConnectionProof(successUrl: string | URLSearchParams): ConnectionProof | null {
+  const params = typeof successUrl === 'string' ? new URL(successUrl).searchParams : successUrl;
+  const address = params.get('account_id');
+  const publicKey = params.get('public_key');
+  const nonce = params.get('nonce');
+  const timestamp = Number(params.get('timestamp'));
+  const signature = params.get('signature');
+  if (!address || !publicKey || !nonce || !signature || !Number.isSafeInteger(timestamp)) return null;
+
+  return { address, publicKey, nonce, timestamp, signature };
+}
+
+export async function verifyConnectionProof(
+  proof: ConnectionProof,
+  expected: ConnectionProofExpectations
+): Promise<{ valid: boolean; error?: string }> {
+  if (proof.nonce !== expected.nonce) {
+    return { valid: false, error: 'Nonce does not match' };
+  }
+
+  const now = expected.now ?? Date.now();
+  if (proof.timestamp > now + CLOCK_SKEW_MS) {
+    return { valid: false, error: 'Proof timestamp is in the future' };
+  }
+  if (now - proof.timestamp > (expected.maxAgeMs ?? DEFAULT_MAX_AGE_MS)) {
+    return { valid: false, error: 'Proof has expired' };
+  }
+
+  const publicKey = Buffer.from(proof.publicKey, 'hex');
+  const signature = Buffer.from(proof.signature, 'base64');
+  if (publicKey.length !== nacl.sign.publicKeyLength || signature.length !== nacl.sign.signatureLength) {
+    return { valid: false, error: 'Malformed public key or signature' };
+  }
+
+  if (await createOctraAddress(publicKey) !== proof.address) {
+    return { valid: false, error: 'Public key does not match address' };
+  }
+
+  const signedBytes = getConnectionProofSigningBytes(expected.origin, proof.nonce, proof.address, proof.timestamp);
+  if (!nacl.sign.detached.verify(signedBytes, signature, publicKey)) {
+    return { valid: false, error: 'Signature verification failed' };
+  }
+
+  return { valid: true };
+}
@@ -3,6 +3,7 @@ export interface Wallet {
   privateKey: string;
   mnemonic?: string;
   publicKey?: string;
+  derivationIndex?: number; // HD account index for mnemonic-backed wallets
 }
 
 export interface WalletData {
@@ -39,12 +40,25 @@ export interface BalanceResponse {
   nonce: number;
 }
 
+export type EncryptedBalanceFormat = 'empty' | 'v1' | 'v2';
+
+// verified: amounts come from decrypting the ciphertext locally and agree with what the node reported
+// unverified: the node sent no ciphertext, so its own numbers are all there is
+export type EncryptedBalanceVerification = 'verified' | 'mismatch' | 'unverified';
+
 export interface EncryptedBalanceResponse {
   public: number;
   public_raw: number;
   encrypted: number;
   encrypted_raw: number;
   total: number;
+  format?: EncryptedBalanceFormat;
+  verification?: EncryptedBalanceVerification;
+  // The node's own figures, kept for the mismatch warning
+  reported_encrypted_raw?: number;
+  reported_total_raw?: number;
+  // Set when the node's ciphertext can't be read; the encrypted amounts are then unknown, not zero
+  error?: string;
 }
 
 export interface Transaction {
@@ -61,11 +75,24 @@ export interface Transaction {
   encrypted_data?: string;
 }
 
+// Portable wrapper for transactions signed on an offline device
+export interface SignedTransactionEnvelope {
+  type: 'octra-signed-tx';
+  version: number;
+  createdAt: number;
+  transaction: Transaction;
+}
+
 export interface AddressHistoryResponse {
   transactions: TransactionHistoryItem[];
   balance: number;
 }
 
+export interface SentTransferHistory {
+  transfers: { hash: string; to: string; amount: number; timestamp: number }[];
+  complete: boolean; // false when part of the period couldn't be read, so a missing transfer proves nothing
+}
+
 export interface TransactionHistoryItem {
   hash: string;
   from: string;
@@ -126,6 +153,23 @@ export interface PendingPrivateTransfer {
   created_at: string;
 }
 
+// Built and encrypted in the browser; submitted to /private_transfer exactly as shown to the user
+export interface PrivateTransferPayload {
+  from: string;
+  to: string;
+  amount: string; // raw units
+  to_public_key: string;
+  ephemeral_key: string;
+  encrypted_data: string; // v2| amount ciphertext the recipient decrypts when claiming
+  sender_encrypted_data: string; // sender's new encrypted balance
+}
+
+// Built against a specific private balance; submitting fails if that balance has moved on since review
+export interface PreparedPrivateTransfer {
+  payload: PrivateTransferPayload;
+  baseRaw: number;
+}
+
 export interface PrivateTransferResult {
   success: boolean;
   tx_hash?: string;
@@ -133,6 +177,22 @@ export interface PrivateTransferResult {
   error?: string;
 }
 
+// Private multi-send types
+export interface PrivateBatchRecipient {
+  row: number;
+  address: string; // as entered, may be a domain
+  resolvedAddress: string;
+  amount: string;
+  error?: string;
+  warning?: string;
+}
+
+export interface PrivateBatchResult extends PrivateTransferResult {
+  row: number;
+  address: string;
+  amount: string;
+}
+
 export interface ClaimResult {
   success: boolean;
   amount?: string;
@@ -143,6 +203,22 @@ export interface ClaimResult {
 export interface WalletPassword {
   hashedPassword: string;
   salt: string;
+  kdf?: KdfParams;
+}
+
+export interface KdfParams {
+  name: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+}
+
+// Versioned keystore entry stored as JSON in encryptedWallets[].encryptedData
+export interface EncryptedVault {
+  version: number;
+  kdf: KdfParams;
+  salt: string;
+  iv: string;
+  ciphertext: string;
 }
 
 // RPC Provider types
@@ -156,14 +232,41 @@ export interface RPCProvider {
   createdAt: number;
 }
 
+// Domain resolution types
+export type DomainResolverBackend = 'rpc' | 'registry' | 'local';
+
+export interface DomainResolverConfig {
+  backend: DomainResolverBackend;
+  url?: string;
+  cacheTtlMs: number;
+}
+
+export interface DomainRecord {
+  name: string;
+  address: string;
+  source: DomainResolverBackend;
+  resolvedAt: number;
+  expiresAt: number;
+}
+
 // dApp connection types
 export interface DAppConnectionRequest {
   origin: string;
-  successUrl: string;
-  failureUrl: string;
+  successUrl?: string; // redirect flow only; provider connections answer over postMessage
+  failureUrl?: string;
   permissions: string[];
   appName?: string;
   appIcon?: string;
+  nonce?: string; // dApp challenge, answered with a signed ConnectionProof
+}
+
+// Returned on connection approval so a dApp backend can check the account's key is really held by the wallet
+export interface ConnectionProof {
+  address: string;
+  publicKey: string; // hex, same as the public_key a connection already returns
+  nonce: string;
+  timestamp: number;
+  signature: string; // base64, over getConnectionProofSigningBytes()
 }
 
 export interface ConnectedDApp {
@@ -172,4 +275,257 @@ export interface ConnectedDApp {
   connectedAt: number;
   permissions: string[];
   selectedAddress: string;
-}
\ No newline at end of file
+  lastUsedAt?: number;
+  expiresAt?: number | null; // unset or null never expires
+  revokedAt?: number; // revoked origins are denied until allowed again
+}
+
+export type DAppConnectionStatus = 'active' | 'expired' | 'revoked';
+
+export interface OriginAccessList {
+  allowed: string[]; // trusted origins skip the first-time warning
+  blocked: string[]; // always denied
+}
+
+export interface OriginRisk {
+  isFirstTime: boolean;
+  isPunycode: boolean;
+  lookalikeOf?: string; // known origin this one imitates
+}
+
+export interface DAppTransactionRequest {
+  origin: string;
+  to: string;
+  amount: string;
+  message?: string;
+  callbackUrl: string;
+  requestId?: string; // echoed back so the dApp can match the callback
+  referrerOrigin?: string; // origin of the page that navigated here, when the browser sent one
+}
+
+export type DAppRequestErrorCode =
+  | 'user_rejected'
+  | 'invalid_request'
+  | 'not_connected'
+  | 'permission_denied'
+  | 'account_unavailable'
+  | 'transaction_failed';
+
+export interface DAppRequestError {
+  code: DAppRequestErrorCode;
+  message: string;
+}
+
+// Provider API (postMessage) types
+export type ProviderMethod = 'connect' | 'getAccounts' | 'getBalance' | 'signMessage' | 'sendTransaction';
+
+export type ProviderEvent = 'ready' | 'accountsChanged' | 'lockChanged';
+
+export interface ProviderError {
+  code: number;
+  message: string;
+}
+
+export interface ProviderRequest {
+  id: string;
+  method: ProviderMethod;
+  params?: Record<string, unknown>;
+}
+
+export interface ProviderMessage {
+  channel: 'octra-provider';
+  id?: string;
+  method?: ProviderMethod;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: ProviderError;
+  event?: ProviderEvent;
+  data?: unknown;
+}
+
+export interface SignedMessage {
+  type: 'octra-signed-message';
+  version: number;
+  address: string;
+  publicKey: string; // base64
+  message: string;
+  signature: string; // base64 Ed25519 signature over the prefixed message
+}
+// Encrypted backup file types
+export interface WalletBackupPayload {
+  createdAt: number;
+  wallets: Wallet[];
+  rpcProviders: RPCProvider[];
+  connectedDApps: ConnectedDApp[];
+}
+
+export interface WalletBackupFile {
+  format: 'octra-wallet-backup';
+  version: number;
+  createdAt: number;
+  walletCount: number;
+  vault: string; // encryptWalletData output holding the JSON payload
+  checksum: string; // SHA-256 hex over the header fields and vault
+}
+
+export type BackupRestoreMode = 'merge' | 'replace';
+
+export interface BackupConflict {
+  kind: 'wallet' | 'rpcProvider' | 'connectedDApp';
+  key: string;
+  detail: string;
+}
+
+export interface BackupRestoreReport {
+  walletsToAdd: Wallet[];
+  walletsToRemove: Wallet[];
+  conflicts: BackupConflict[];
+  settingsRestored: number;
+}
+
+// Outbound transaction queue types
+export type QueuedTransactionStatus = 'queued' | 'pending' | 'confirmed' | 'failed' | 'dropped';
+
+export interface QueuedTransaction {
+  id: string;
+  from: string;
+  to: string;
+  amount: number;
+  nonce: number;
+  transaction: Transaction; // signed; private keys are never persisted
+  status: QueuedTransactionStatus;
+  hash?: string;
+  error?: string;
+  createdAt: number;
+  submittedAt?: number;
+  lastSeenAt?: number;
+  broadcastCount: number;
+  reference?: string; // caller-defined tag, e.g. the payout job row that produced it
+}
+
+export interface TransactionOutput {
+  to: string;
+  amount: number;
+  message?: string;
+  reference?: string;
+}
+
+// Bulk payout job types
+// unknown: not found in a history check that couldn't cover everything, so it is held back rather than resent
+export type PayoutRowStatus = 'pending' | 'sending' | 'sent' | 'confirmed' | 'failed' | 'already-paid' | 'unknown';
+
+export interface PayoutRow {
+  row: number; // line number in the source file
+  recipient: string; // as written in the file, address or domain
+  address: string; // resolved address
+  amount: number;
+  message?: string;
+  status: PayoutRowStatus;
+  nonce?: number;
+  hash?: string;
+  error?: string;
+}
+
+export type PayoutJobStatus = 'ready' | 'running' | 'paused' | 'completed';
+
+export interface PayoutJob {
+  id: string;
+  name: string;
+  from: string;
+  fileName: string;
+  createdAt: number;
+  updatedAt: number;
+  heartbeatAt?: number;
+  status: PayoutJobStatus;
+  rows: PayoutRow[];
+}
+
+// Payout file parsing types
+export type PayoutFileFormat = 'txt' | 'csv' | 'tsv' | 'json';
+
+export interface PayoutFileTable {
+  format: PayoutFileFormat;
+  columns: string[];
+  hasHeader: boolean;
+  rows: { row: number; values: string[] }[]; // row is the line number, or array position for JSON
+}
+
+export interface PayoutColumnMapping {
+  address: number;
+  amount: number | null;
+  message: number | null;
+}
+
+export interface PayoutFileEntry {
+  row: number;
+  address: string;
+  amount: string;
+  message?: string;
+  error?: string;
+}
+
+// Payment request URI types (octra:<address>?amount=...)
+export interface PaymentRecipient {
+  address: string; // oct address or .oct name
+  amount?: string;
+  message?: string;
+}
+
+export interface PaymentRequest {
+  recipients: PaymentRecipient[];
+  label?: string; // who is asking to be paid
+}
+
+// Private balance operations, serialised per address so each new ciphertext builds on the last
+export type PrivateBalanceOperationKind = 'encrypt' | 'decrypt' | 'send' | 'claim' | 'upgrade';
+
+export type PrivateBalanceOperationStatus = 'pending' | 'confirmed' | 'failed' | 'diverged';
+
+export interface PrivateBalanceOperation {
+  id: string;
+  address: string;
+  kind: PrivateBalanceOperationKind;
+  delta: number; // raw change to the encrypted balance
+  baseRaw: number; // balance the submitted ciphertext was computed from
+  expectedRaw: number; // what the chain should decrypt to once this operation lands
+  status: PrivateBalanceOperationStatus;
+  txHash?: string;
+  error?: string;
+  createdAt: number;
+  settledAt?: number;
+}
+
+// Encrypted amounts here include operations the node has accepted but not applied yet
+export interface PrivateBalanceState extends EncryptedBalanceResponse {
+  chain_raw: number; // what the node's ciphertext decrypts to right now
+  pending_raw: number;
+  pending_count: number;
+  diverged: boolean; // pending operations were dropped because the chain went somewhere unexpected
+}
+
+// Claim inbox: pending transfers found by background polling, with amounts decrypted locally
+export interface ClaimInboxItem extends PendingPrivateTransfer {
+  address: string; // wallet the transfer is waiting for
+  amountRaw: number | null; // null when the amount can't be decrypted
+  firstSeenAt: number;
+  read: boolean;
+}
+
+export interface AutoClaimRule {
+  address: string;
+  enabled: boolean;
+  minAmount?: number; // OCT
+  trustedSenders: string[]; // empty means any sender
+}
+
+export interface ClaimLedgerEntry {
+  id: string;
+  address: string;
+  transferId: string;
+  sender: string;
+  amountRaw: number | null;
+  status: 'claimed' | 'failed';
+  auto: boolean;
+  error?: string;
+  at: number;
+}
@@ -1,22 +1,36 @@
 // api.ts
-import { BalanceResponse, Transaction, AddressHistoryResponse, TransactionDetails, PendingTransaction, StagingResponse, EncryptedBalanceResponse, PendingPrivateTransfer, PrivateTransferResult, ClaimResult } from '../types/wallet';
-import { encryptClientBalance } from './crypto';
+import { BalanceResponse, Transaction, AddressHistoryResponse, SentTransferHistory, TransactionDetails, PendingTransaction, StagingResponse, EncryptedBalanceFormat, EncryptedBalanceResponse, EncryptedBalanceVerification, PendingPrivateTransfer, PrivateTransferPayload, PrivateTransferResult, ClaimResult } from '../types/wallet';
+import {
+  decryptClientBalance,
+  decryptPrivateAmount,
+  deriveSharedSecretForClaim,
+  deriveSharedSecretForTransfer,
+  encryptClientBalance,
+  encryptPrivateAmount,
+  getEncryptedDataFormat
+} from './crypto';
+import { makeRPCRequest } from './rpc';
+import { isLegacyKeyDisclosureEnabled, signNodeRequest } from './nodeAuth';
+import {
+  legacyClaimPrivateTransfer,
+  legacyCreatePrivateTransfer,
+  legacyDecryptBalance,
+  legacyEncryptBalance,
+  legacyFetchEncryptedBalance,
+  legacyGetPendingPrivateTransfers
+} from './legacyApi';
 import * as nacl from 'tweetnacl';
 
 const MU_FACTOR = 1_000_000;
+const HISTORY_PAGE_SIZE = 100;
+const HISTORY_MAX_PAGES = 50;
+const HISTORY_DETAILS_CONCURRENCY = 4;
 
-// Use the proxy endpoint instead of direct RPC calls to avoid CORS
+// Reads go through the configured RPC providers with priority failover. Writes are not idempotent, so a
+// timed-out POST is never replayed to another node.
 async function makeAPIRequest(endpoint: string, options: RequestInit = {}): Promise<Response> {
-  // Use the /api proxy configured in vite.config.ts
-  const url = `/api${endpoint}`;
-  
-  return fetch(url, {
-    ...options,
-    headers: {
-      'Content-Type': 'application/json',
-      ...options.headers
-    }
-  });
+  const isRead = (options.method || 'GET').toUpperCase() === 'GET';
+  return makeRPCRequest(endpoint, options, { failover: isRead });
 }
 
 export async function fetchBalance(address: string): Promise<BalanceResponse> {
@@ -71,26 +85,87 @@ export async function fetchBalance(address: string): Promise<BalanceResponse> {
   }
 }
 
+// Node responses that mean it doesn't accept signed requests for this endpoint
+const LEGACY_FALLBACK_STATUSES = [401, 403, 404, 405, 501];
+
+function shouldFallBackToLegacy(response: Response): boolean {
+  return LEGACY_FALLBACK_STATUSES.includes(response.status) && isLegacyKeyDisclosureEnabled();
+}
+
+// Authenticated with a signature over the request instead of sending the private key
+async function makeSignedAPIRequest(endpoint: string, address: string, privateKey: string, options: RequestInit = {}): Promise<Response> {
+  const body = typeof options.body === 'string' ? options.body : '';
+  const authHeaders = await signNodeRequest(address, privateKey, options.method || 'GET', endpoint, body);
+  return makeAPIRequest(endpoint, {
+    ...options,
+    headers: { ...options.headers, ...authHeaders }
+  });
+}
+
+async function postSigned(endpoint: string, address: string, privateKey: string, data: unknown): Promise<Response> {
+  return makeSignedAPIRequest(endpoint, address, privateKey, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+}
+
+// Reads a node-reported amount from its raw field, or failing that its "12.5 OCT" display field
+function readReportedRaw(raw: unknown, display: unknown): number | undefined {
+  if (raw !== undefined && raw !== null && raw !== '') {
+    return parseInt(String(raw));
+  }
+  if (typeof display === 'string') {
+    return Math.round(parseFloat(display.split(' ')[0]) * MU_FACTOR);
+  }
+  return undefined;
+}
+
+// The node only ever sees the encrypted balance ciphertext; it is decrypted here with the local key
 export async function fetchEncryptedBalance(address: string, privateKey: string): Promise<EncryptedBalanceResponse | null> {
   try {
-    const response = await makeAPIRequest(`/view_encrypted_balance/${address}`, {
-      headers: {
-        'X-Private-Key': privateKey
-      }
-    });
+    const response = await makeSignedAPIRequest(`/view_encrypted_balance/${address}`, address, privateKey);
     
     if (!response.ok) {
-      return null;
+      return shouldFallBackToLegacy(response) ? legacyFetchEncryptedBalance(address, privateKey) : null;
     }
     
     const data = await response.json();
+    const publicRaw = parseInt(data.public_balance_raw || '0');
+    const reportedEncryptedRaw = readReportedRaw(data.encrypted_balance_raw, data.encrypted_balance);
+    const reportedTotalRaw = readReportedRaw(data.total_balance_raw, data.total_balance);
+    let encryptedRaw = reportedEncryptedRaw ?? 0;
+    let format: EncryptedBalanceFormat | undefined;
+    let verification: EncryptedBalanceVerification = 'unverified';
+    let error: string | undefined;
+    if (typeof data.encrypted_data === 'string') {
+      format = getEncryptedDataFormat(data.encrypted_data) ?? undefined;
+      try {
+        encryptedRaw = await decryptClientBalance(data.encrypted_data, privateKey);
+        // The decrypted amount is used either way; a provider that disagrees with it is misreporting
+        const mismatched = (reportedEncryptedRaw !== undefined && reportedEncryptedRaw !== encryptedRaw)
+          || (reportedTotalRaw !== undefined && reportedTotalRaw !== publicRaw + encryptedRaw);
+        verification = mismatched ? 'mismatch' : 'verified';
+      } catch (decryptError) {
+        // Flag the private side instead of reporting zero, so nothing overwrites it with a guess
+        encryptedRaw = 0;
+        error = decryptError instanceof Error ? decryptError.message : 'Unable to read encrypted balance';
+      }
+    }
     
     return {
-      public: parseFloat(data.public_balance?.split(' ')[0] || '0'),
-      public_raw: parseInt(data.public_balance_raw || '0'),
-      encrypted: parseFloat(data.encrypted_balance?.split(' ')[0] || '0'),
-      encrypted_raw: parseInt(data.encrypted_balance_raw || '0'),
-      total: parseFloat(data.total_balance?.split(' ')[0] || '0')
+      public: publicRaw / MU_FACTOR,
+      public_raw: publicRaw,
+      encrypted: encryptedRaw / MU_FACTOR,
+      encrypted_raw: encryptedRaw,
+      total: (publicRaw + encryptedRaw) / MU_FACTOR,
+      format,
+      verification,
+      reported_encrypted_raw: reportedEncryptedRaw,
+      reported_total_raw: reportedTotalRaw,
+      error
     };
   } catch (error) {
     console.error('Error fetching encrypted balance:', error);
@@ -98,83 +173,61 @@ export async function fetchEncryptedBalance(address: string, privateKey: string)
   }
 }
 
-export async function encryptBalance(address: string, amount: number, privateKey: string): Promise<{ success: boolean; tx_hash?: string; error?: string }> {
+async function submitBalanceChange(
+  endpoint: '/encrypt_balance' | '/decrypt_balance',
+  address: string,
+  amount: number,
+  privateKey: string,
+  currentRaw: number
+): Promise<{ success: boolean; tx_hash?: string; error?: string } | 'legacy'> {
+  const amountRaw = Math.floor(amount * MU_FACTOR);
+  if (endpoint === '/decrypt_balance' && currentRaw < amountRaw) {
+    return { success: false, error: "Insufficient encrypted balance" };
+  }
+  const newEncryptedRaw = endpoint === '/encrypt_balance'
+    ? currentRaw + amountRaw
+    : currentRaw - amountRaw;
+
+  const response = await postSigned(endpoint, address, privateKey, {
+    address,
+    amount: amountRaw.toString(),
+    encrypted_data: await encryptClientBalance(newEncryptedRaw, privateKey)
+  });
+
+  if (response.ok) {
+    const result = await response.json();
+    return { success: true, tx_hash: result.tx_hash };
+  }
+  if (shouldFallBackToLegacy(response)) {
+    return 'legacy';
+  }
+  return { success: false, error: await response.text() };
+}
+
+// Balance-changing calls take the encrypted balance to build on; privateBalance.ts decides what that is
+export async function encryptBalance(address: string, amount: number, privateKey: string, currentRaw: number): Promise<{ success: boolean; tx_hash?: string; error?: string }> {
   try {
-    const encData = await fetchEncryptedBalance(address, privateKey);
-    if (!encData) {
-      return { success: false, error: "Cannot get balance" };
-    }
-    
-    const currentEncryptedRaw = encData.encrypted_raw;
-    const newEncryptedRaw = currentEncryptedRaw + Math.floor(amount * MU_FACTOR);
-    
-    const encryptedValue = await encryptClientBalance(newEncryptedRaw, privateKey);
-    
-    const data = {
-      address,
-      amount: Math.floor(amount * MU_FACTOR).toString(),
-      private_key: privateKey,
-      encrypted_data: encryptedValue
-    };
-    
-    const response = await makeAPIRequest('/encrypt_balance', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
-    
-    if (response.ok) {
-      const result = await response.json();
-      return { success: true, tx_hash: result.tx_hash };
-    } else {
-      const error = await response.text();
-      return { success: false, error };
-    }
+    const result = await submitBalanceChange('/encrypt_balance', address, amount, privateKey, currentRaw);
+    return result === 'legacy' ? legacyEncryptBalance(address, amount, privateKey, currentRaw) : result;
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
 
-export async function decryptBalance(address: string, amount: number, privateKey: string): Promise<{ success: boolean; tx_hash?: string; error?: string }> {
+export async function decryptBalance(address: string, amount: number, privateKey: string, currentRaw: number): Promise<{ success: boolean; tx_hash?: string; error?: string }> {
   try {
-    const encData = await fetchEncryptedBalance(address, privateKey);
-    if (!encData) {
-      return { success: false, error: "Cannot get balance" };
-    }
-    
-    const currentEncryptedRaw = encData.encrypted_raw;
-    if (currentEncryptedRaw < Math.floor(amount * MU_FACTOR)) {
-      return { success: false, error: "Insufficient encrypted balance" };
-    }
-    
-    const newEncryptedRaw = currentEncryptedRaw - Math.floor(amount * MU_FACTOR);
-    
-    const encryptedValue = await encryptClientBalance(newEncryptedRaw, privateKey);
-    
-    const data = {
-      address,
-      amount: Math.floor(amount * MU_FACTOR).toString(),
-      private_key: privateKey,
-      encrypted_data: encryptedValue
-    };
-    
-    const response = await makeAPIRequest('/decrypt_balance', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
-    
-    if (response.ok) {
-      const result = await response.json();
-      return { success: true, tx_hash: result.tx_hash };
-    } else {
-      const error = await response.text();
-      return { success: false, error };
-    }
+    const result = await submitBalanceChange('/decrypt_balance', address, amount, privateKey, currentRaw);
+    return result === 'legacy' ? legacyDecryptBalance(address, amount, privateKey, currentRaw) : result;
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+// Re-encrypts an unchanged v1 balance as v2; the node sees a zero-amount encrypt with the new ciphertext
+export async function upgradeEncryptedBalance(address: string, privateKey: string, currentRaw: number): Promise<{ success: boolean; tx_hash?: string; error?: string }> {
+  try {
+    const result = await submitBalanceChange('/encrypt_balance', address, 0, privateKey, currentRaw);
+    return result === 'legacy' ? { success: false, error: "This node does not accept signed balance updates" } : result;
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
@@ -207,45 +260,65 @@ export async function getPublicKey(address: string): Promise<string | null> {
   }
 }
 
-export async function createPrivateTransfer(fromAddress: string, toAddress: string, amount: number, fromPrivateKey: string): Promise<PrivateTransferResult> {
-  try {
-    const addressInfo = await getAddressInfo(toAddress);
-    if (!addressInfo || !addressInfo.has_public_key) {
-      return { success: false, error: "Recipient has no public key" };
-    }
-    
-    const toPublicKey = await getPublicKey(toAddress);
-    if (!toPublicKey) {
-      return { success: false, error: "Cannot get recipient public key" };
-    }
-    
-    const data = {
+// Everything the node needs is encrypted here: the amount for the recipient and the sender's new balance
+export async function preparePrivateTransfer(
+  fromAddress: string,
+  toAddress: string,
+  amount: number,
+  fromPrivateKey: string,
+  currentRaw: number
+): Promise<{ payload: PrivateTransferPayload; error?: undefined } | { payload?: undefined; error: string }> {
+  const addressInfo = await getAddressInfo(toAddress);
+  if (!addressInfo || !addressInfo.has_public_key) {
+    return { error: "Recipient has no public key" };
+  }
+  
+  const toPublicKey = await getPublicKey(toAddress);
+  if (!toPublicKey) {
+    return { error: "Cannot get recipient public key" };
+  }
+
+  const amountRaw = Math.floor(amount * MU_FACTOR);
+  if (currentRaw < amountRaw) {
+    return { error: "Insufficient encrypted balance" };
+  }
+
+  const { ephemeralKey, sharedSecret } = await deriveSharedSecretForTransfer(toPublicKey);
+  const encryptedAmount = await encryptPrivateAmount(amountRaw, sharedSecret);
+  // Refuse to submit anything the recipient's claim-side decryption wouldn't read back
+  if (await decryptPrivateAmount(encryptedAmount, sharedSecret) !== amountRaw) {
+    return { error: "Encrypted amount failed verification" };
+  }
+
+  return {
+    payload: {
       from: fromAddress,
       to: toAddress,
-      amount: Math.floor(amount * MU_FACTOR).toString(),
-      from_private_key: fromPrivateKey,
-      to_public_key: toPublicKey
-    };
-    
-    const response = await makeAPIRequest('/private_transfer', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
+      amount: amountRaw.toString(),
+      to_public_key: toPublicKey,
+      ephemeral_key: ephemeralKey,
+      encrypted_data: encryptedAmount,
+      sender_encrypted_data: await encryptClientBalance(currentRaw - amountRaw, fromPrivateKey)
+    }
+  };
+}
+
+export async function submitPrivateTransfer(payload: PrivateTransferPayload, fromPrivateKey: string): Promise<PrivateTransferResult> {
+  try {
+    const response = await postSigned('/private_transfer', payload.from, fromPrivateKey, payload);
     
     if (response.ok) {
       const result = await response.json();
       return {
         success: true,
         tx_hash: result.tx_hash,
-        ephemeral_key: result.ephemeral_key
+        ephemeral_key: result.ephemeral_key || payload.ephemeral_key
       };
-    } else {
-      const error = await response.text();
-      return { success: false, error };
     }
+    if (shouldFallBackToLegacy(response)) {
+      return legacyCreatePrivateTransfer(payload.from, payload.to, Number(payload.amount) / MU_FACTOR, fromPrivateKey, payload.to_public_key);
+    }
+    return { success: false, error: await response.text() };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
@@ -253,37 +326,41 @@ export async function createPrivateTransfer(fromAddress: string, toAddress: stri
 
 export async function getPendingPrivateTransfers(address: string, privateKey: string): Promise<PendingPrivateTransfer[]> {
   try {
-    const response = await makeAPIRequest(`/pending_private_transfers?address=${address}`, {
-      headers: {
-        'X-Private-Key': privateKey
-      }
-    });
+    const response = await makeSignedAPIRequest(`/pending_private_transfers?address=${address}`, address, privateKey);
     
     if (response.ok) {
       const data = await response.json();
       return data.pending_transfers || [];
     }
-    return [];
+    return shouldFallBackToLegacy(response) ? legacyGetPendingPrivateTransfers(address, privateKey) : [];
   } catch (error) {
     console.error('Error fetching pending private transfers:', error);
     return [];
   }
 }
 
-export async function claimPrivateTransfer(recipientAddress: string, privateKey: string, transferId: string): Promise<ClaimResult> {
+// The amount is decrypted locally from the transfer's ephemeral key, so the node can credit it without the recipient's key
+export async function readPendingTransferAmount(transfer: PendingPrivateTransfer, privateKey: string): Promise<number | null> {
+  if (!transfer.encrypted_data || !transfer.ephemeral_key) {
+    return null;
+  }
+  const sharedSecret = await deriveSharedSecretForClaim(privateKey, transfer.ephemeral_key);
+  return decryptPrivateAmount(transfer.encrypted_data, sharedSecret);
+}
+
+export async function claimPrivateTransfer(
+  recipientAddress: string,
+  privateKey: string,
+  transferId: string,
+  amountRaw: number,
+  currentRaw: number
+): Promise<ClaimResult> {
   try {
-    const data = {
+    const response = await postSigned('/claim_private_transfer', recipientAddress, privateKey, {
       recipient_address: recipientAddress,
-      private_key: privateKey,
-      transfer_id: transferId
-    };
-    
-    const response = await makeAPIRequest('/claim_private_transfer', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
+      transfer_id: transferId,
+      amount: amountRaw.toString(),
+      encrypted_data: await encryptClientBalance(currentRaw + amountRaw, privateKey)
     });
     
     if (response.ok) {
@@ -292,10 +369,11 @@ export async function claimPrivateTransfer(recipientAddress: string, privateKey:
         success: true,
         amount: result.amount
       };
-    } else {
-      const error = await response.text();
-      return { success: false, error };
     }
+    if (shouldFallBackToLegacy(response)) {
+      return legacyClaimPrivateTransfer(recipientAddress, privateKey, transferId);
+    }
+    return { success: false, error: await response.text() };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
@@ -339,6 +417,22 @@ export async function sendTransaction(transaction: Transaction): Promise<{ succe
   }
 }
 
+// Convert transaction to JSON string for signing exactly like CLI
+// CLI uses: json.dumps({k: v for k, v in tx.items() if k != "message"}, separators=(",", ":"))
+export function getTransactionSigningData(transaction: Transaction): string {
+  // Create signing data excluding message field like CLI does
+  const signingObject: any = {};
+  // Add fields in the exact order as CLI to ensure consistent JSON
+  signingObject.from = transaction.from;
+  signingObject.to_ = transaction.to_;
+  signingObject.amount = transaction.amount;
+  signingObject.nonce = transaction.nonce;
+  signingObject.ou = transaction.ou;
+  signingObject.timestamp = transaction.timestamp;
+  
+  return JSON.stringify(signingObject, null, 0);
+}
+
 export function createTransaction(
   senderAddress: string,
   recipientAddress: string,
@@ -372,19 +466,7 @@ export function createTransaction(
     transaction.message = message;
   }
 
-  // Convert transaction to JSON string for signing exactly like CLI
-  // CLI uses: json.dumps({k: v for k, v in tx.items() if k != "message"}, separators=(",", ":"))
-  // Create signing data excluding message field like CLI does
-  const signingObject: any = {};
-  // Add fields in the exact order as CLI to ensure consistent JSON
-  signingObject.from = transaction.from;
-  signingObject.to_ = transaction.to_;
-  signingObject.amount = transaction.amount;
-  signingObject.nonce = transaction.nonce;
-  signingObject.ou = transaction.ou;
-  signingObject.timestamp = transaction.timestamp;
-  
-  const signingData = JSON.stringify(signingObject, null, 0);
+  const signingData = getTransactionSigningData(transaction);
   
   // Prepare keys for signing
   const privateKeyBuffer = Buffer.from(privateKeyBase64, 'base64');
@@ -406,38 +488,31 @@ export function createTransaction(
 }
 
 // New function to fetch pending transactions from staging
+// Throws when staging can't be read, for callers that must not mistake an outage for an empty staging area
+export async function fetchStagedTransactions(address: string): Promise<PendingTransaction[]> {
+  const response = await makeAPIRequest(`/staging`);
+  
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Failed to fetch pending transactions:', response.status, errorText);
+    throw new Error(`Error ${response.status}`);
+  }
+  
+  const data: StagingResponse = JSON.parse(await response.text());
+  if (!data.staged_transactions || !Array.isArray(data.staged_transactions)) {
+    throw new Error('Staging response does not contain staged_transactions array');
+  }
+  
+  // Filter transactions for the specific address
+  return data.staged_transactions.filter(tx => 
+    tx.from.toLowerCase() === address.toLowerCase() || 
+    tx.to.toLowerCase() === address.toLowerCase()
+  );
+}
+
 export async function fetchPendingTransactions(address: string): Promise<PendingTransaction[]> {
   try {
-    const response = await makeAPIRequest(`/staging`);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Failed to fetch pending transactions:', response.status, errorText);
-      throw new Error(`Error ${response.status}`);
-    }
-    
-    const responseText = await response.text();
-    let data: StagingResponse;
-    
-    try {
-      data = JSON.parse(responseText);
-      
-      if (!data.staged_transactions || !Array.isArray(data.staged_transactions)) {
-        console.warn('Staging response does not contain staged_transactions array:', data);
-        return [];
-      }
-    } catch (parseError) {
-      console.error('Failed to parse staging JSON:', parseError);
-      return [];
-    }
-    
-    // Filter transactions for the specific address
-    const userTransactions = data.staged_transactions.filter(tx => 
-      tx.from.toLowerCase() === address.toLowerCase() || 
-      tx.to.toLowerCase() === address.toLowerCase()
-    );
-    
-    return userTransactions;
+    return await fetchStagedTransactions(address);
   } catch (error) {
     console.error('Error fetching pending transactions:', error);
     return [];
@@ -577,6 +652,79 @@ export async function fetchTransactionHistory(address: string): Promise<AddressH
   }
 }
 
+// Runs fn over items with at most `limit` calls in flight
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Pages back through the whole history until it passes `since` (ms), instead of only recent_transactions.
+// Any page, detail or staging lookup that fails leaves the result incomplete rather than silently shorter.
+export async function fetchSentTransfersSince(address: string, since: number): Promise<SentTransferHistory> {
+  // Keyed by hash: new transactions shift the pages while paging, so the same one can be seen twice
+  const transfers = new Map<string, SentTransferHistory['transfers'][number]>();
+  let complete = true;
+  let reachedStart = false;
+
+  for (let page = 0; page < HISTORY_MAX_PAGES && !reachedStart; page++) {
+    const offset = page * HISTORY_PAGE_SIZE;
+    const response = await makeAPIRequest(`/address/${address}?limit=${HISTORY_PAGE_SIZE}&offset=${offset}`);
+    if (!response.ok) {
+      throw new Error(`Error ${response.status}`);
+    }
+    const data: AddressApiResponse = await response.json();
+    const entries = data.recent_transactions || [];
+
+    const details = await mapWithConcurrency(entries, HISTORY_DETAILS_CONCURRENCY, async (entry) => {
+      try {
+        return await fetchTransactionDetails(entry.hash);
+      } catch {
+        return null;
+      }
+    });
+    for (const tx of details) {
+      if (!tx) {
+        complete = false;
+        continue;
+      }
+      if (tx.parsed_tx.timestamp * 1000 < since) {
+        reachedStart = true;
+      } else if (tx.parsed_tx.from === address) {
+        transfers.set(tx.tx_hash, { hash: tx.tx_hash, to: tx.parsed_tx.to, amount: parseFloat(tx.parsed_tx.amount), timestamp: tx.parsed_tx.timestamp });
+      }
+    }
+
+    if (offset + entries.length >= data.transaction_count) {
+      reachedStart = true;
+    } else if (entries.length < HISTORY_PAGE_SIZE) {
+      // A short page before the end means the node didn't page as asked
+      break;
+    }
+  }
+  if (!reachedStart) {
+    complete = false;
+  }
+
+  try {
+    const staged = await fetchStagedTransactions(address);
+    staged
+      .filter(tx => tx.from === address)
+      .forEach(tx => transfers.set(tx.hash, { hash: tx.hash, to: tx.to, amount: parseFloat(tx.amount), timestamp: tx.timestamp }));
+  } catch {
+    complete = false;
+  }
+
+  return { transfers: [...transfers.values()], complete };
+}
+
 export async function fetchTransactionDetails(hash: string): Promise<TransactionDetails> {
   try {
     const response = await makeAPIRequest(`/tx/${hash}`);
@@ -615,34 +763,6 @@ export async function getBalance(address: string): Promise<number> {
   }
 }
 
-export async function sendMultipleTransactions(transactions: any[]): Promise<string[]> {
-  try {
-    const promises = transactions.map(async (txData, index) => {
-      // Convert the transaction data to the proper format
-      const transaction = createTransaction(
-        txData.from,
-        txData.to,
-        txData.amount,
-        0, // nonce will be handled properly in real implementation
-        txData.privateKey,
-        '' // publicKey will be derived from privateKey
-      );
-      
-      const result = await sendTransaction(transaction);
-      if (result.success && result.hash) {
-        return result.hash;
-      }
-      throw new Error(result.error || 'Transaction failed');
-    });
-    
-    const results = await Promise.all(promises);
-    return results;
-  } catch (error) {
-    console.error('Error sending multiple transactions:', error);
-    throw error;
-  }
-}
-
 export async function getTransactionHistory(address: string): Promise<any[]> {
   try {
     const result = await fetchTransactionHistory(address);
@@ -0,0 +1,169 @@
+import {
+  BackupConflict,
+  BackupRestoreMode,
+  BackupRestoreReport,
+  ConnectedDApp,
+  RPCProvider,
+  Wallet,
+  WalletBackupFile,
+  WalletBackupPayload
+} from '../types/wallet';
+import { decryptWalletData, encryptWalletData } from './password';
+
+const BACKUP_FORMAT = 'octra-wallet-backup';
+const BACKUP_VERSION = 1;
+
+function readJson<T>(key: string, fallback: T): T {
+  const saved = localStorage.getItem(key);
+  return saved ? JSON.parse(saved) : fallback;
+}
+
+async function computeChecksum(file: Omit<WalletBackupFile, 'checksum'>): Promise<string> {
+  const data = `${file.format}|${file.version}|${file.createdAt}|${file.walletCount}|${file.vault}`;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(data));
+  return Buffer.from(digest).toString('hex');
+}
+
+function isValidWallet(wallet: Wallet): boolean {
+  return typeof wallet?.address === 'string' && typeof wallet?.privateKey === 'string';
+}
+
+export async function createBackup(wallets: Wallet[], password: string): Promise<string> {
+  if (wallets.length === 0) {
+    throw new Error('No wallets to back up');
+  }
+
+  const createdAt = Date.now();
+  const payload: WalletBackupPayload = {
+    createdAt,
+    wallets,
+    rpcProviders: readJson('rpcProviders', []),
+    connectedDApps: readJson('connectedDApps', [])
+  };
+
+  const header = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt,
+    walletCount: wallets.length,
+    vault: await encryptWalletData(JSON.stringify(payload), password)
+  } as const;
+
+  const file: WalletBackupFile = { ...header, checksum: await computeChecksum(header) };
+  return JSON.stringify(file, null, 2);
+}
+
+export async function readBackup(content: string, password: string): Promise<WalletBackupPayload> {
+  let file: WalletBackupFile;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error('Not a valid backup file');
+  }
+
+  if (file?.format !== BACKUP_FORMAT) {
+    throw new Error('Not an Octra wallet backup');
+  }
+  if (file.version !== BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${file.version}`);
+  }
+  if (typeof file.vault !== 'string' || file.checksum !== await computeChecksum(file)) {
+    throw new Error('Backup file is corrupted');
+  }
+
+  let payload: WalletBackupPayload;
+  try {
+    payload = JSON.parse(await decryptWalletData(file.vault, password));
+  } catch {
+    throw new Error('Incorrect backup password');
+  }
+
+  // The header is only covered by the checksum, so cross-check it against the authenticated payload
+  if (payload.createdAt !== file.createdAt || !Array.isArray(payload.wallets) || payload.wallets.length !== file.walletCount) {
+    throw new Error('Backup header does not match its contents');
+  }
+  if (!payload.wallets.every(isValidWallet)) {
+    throw new Error('Backup contains an invalid wallet entry');
+  }
+
+  return {
+    ...payload,
+    rpcProviders: payload.rpcProviders || [],
+    connectedDApps: payload.connectedDApps || []
+  };
+}
+
+function restoreRPCProviders(backup: RPCProvider[], mode: BackupRestoreMode, conflicts: BackupConflict[]): number {
+  if (mode === 'replace') {
+    localStorage.setItem('rpcProviders', JSON.stringify(backup));
+    return backup.length;
+  }
+
+  const current: RPCProvider[] = readJson('rpcProviders', []);
+  let restored = 0;
+  for (const provider of backup) {
+    const existing = current.find(p => p.url === provider.url);
+    if (!existing) {
+      // Never let a restored provider silently take over from the active one
+      current.push({ ...provider, isActive: current.length === 0 && provider.isActive });
+      restored++;
+    } else if (existing.name !== provider.name || JSON.stringify(existing.headers) !== JSON.stringify(provider.headers)) {
+      conflicts.push({ kind: 'rpcProvider', key: provider.url, detail: `Kept existing provider "${existing.name}"` });
+    }
+  }
+  localStorage.setItem('rpcProviders', JSON.stringify(current));
+  return restored;
+}
+
+function restoreConnectedDApps(backup: ConnectedDApp[], mode: BackupRestoreMode, conflicts: BackupConflict[]): number {
+  if (mode === 'replace') {
+    localStorage.setItem('connectedDApps', JSON.stringify(backup));
+    return backup.length;
+  }
+
+  const current: ConnectedDApp[] = readJson('connectedDApps', []);
+  let restored = 0;
+  for (const dapp of backup) {
+    const existing = current.find(d => d.origin === dapp.origin);
+    if (!existing) {
+      current.push(dapp);
+      restored++;
+    } else if (existing.selectedAddress !== dapp.selectedAddress) {
+      conflicts.push({ kind: 'connectedDApp', key: dapp.origin, detail: `Kept connection for ${existing.selectedAddress}` });
+    }
+  }
+  localStorage.setItem('connectedDApps', JSON.stringify(current));
+  return restored;
+}
+
+// Writes the backed-up settings to storage and works out which wallets the caller should add or remove.
+// Wallets already present are always kept as they are; a differing backup copy is reported as a conflict.
+export function restoreBackup(payload: WalletBackupPayload, existingWallets: Wallet[], mode: BackupRestoreMode): BackupRestoreReport {
+  const conflicts: BackupConflict[] = [];
+  const walletsToAdd: Wallet[] = [];
+
+  for (const wallet of payload.wallets) {
+    const existing = existingWallets.find(w => w.address === wallet.address);
+    if (!existing) {
+      if (!walletsToAdd.some(w => w.address === wallet.address)) {
+        walletsToAdd.push(wallet);
+      }
+    } else if (
+      existing.privateKey !== wallet.privateKey ||
+      existing.mnemonic !== wallet.mnemonic ||
+      (existing.derivationIndex ?? 0) !== (wallet.derivationIndex ?? 0)
+    ) {
+      conflicts.push({ kind: 'wallet', key: wallet.address, detail: 'Kept the wallet already in this browser' });
+    }
+  }
+
+  const walletsToRemove = mode === 'replace'
+    ? existingWallets.filter(w => !payload.wallets.some(b => b.address === w.address))
+    : [];
+
+  const settingsRestored =
+    restoreRPCProviders(payload.rpcProviders, mode, conflicts) +
+    restoreConnectedDApps(payload.connectedDApps, mode, conflicts);
+
+  return { walletsToAdd, walletsToRemove, conflicts, settingsRestored };
+}
@@ -0,0 +1,183 @@
+import { AutoClaimRule, ClaimInboxItem, ClaimLedgerEntry, ClaimResult, Wallet } from '../types/wallet';
+import { getPendingPrivateTransfers, readPendingTransferAmount } from './api';
+import { claimDecryptedTransfer } from './privateBalance';
+
+export const CLAIM_INBOX_UPDATED_EVENT = 'octra-claim-inbox-updated';
+export const CLAIM_INBOX_STORAGE_KEY = 'claimInbox';
+export const AUTO_CLAIM_RULES_STORAGE_KEY = 'autoClaimRules';
+export const CLAIM_LEDGER_STORAGE_KEY = 'claimLedger';
+
+const MU_FACTOR = 1_000_000;
+const POLL_INTERVAL_MS = 30000;
+const MAX_LEDGER_ENTRIES = 500;
+
+let isPolling = false;
+
+function readList<T>(key: string): T[] {
+  return JSON.parse(localStorage.getItem(key) || '[]');
+}
+
+function writeList<T>(key: string, items: T[]) {
+  localStorage.setItem(key, JSON.stringify(items));
+  window.dispatchEvent(new CustomEvent(CLAIM_INBOX_UPDATED_EVENT));
+}
+
+function isSameTransfer(item: ClaimInboxItem, address: string, transferId: string): boolean {
+  return item.address === address && String(item.id) === String(transferId);
+}
+
+export function getClaimInbox(address?: string): ClaimInboxItem[] {
+  return readList<ClaimInboxItem>(CLAIM_INBOX_STORAGE_KEY)
+    .filter(i => !address || i.address === address)
+    .sort((a, b) => b.firstSeenAt - a.firstSeenAt);
+}
+
+export function getUnreadClaimCount(address: string): number {
+  return getClaimInbox(address).filter(i => !i.read).length;
+}
+
+export function markClaimInboxRead(address: string) {
+  const inbox = readList<ClaimInboxItem>(CLAIM_INBOX_STORAGE_KEY);
+  if (!inbox.some(i => i.address === address && !i.read)) return;
+  writeList(CLAIM_INBOX_STORAGE_KEY, inbox.map(i => i.address === address ? { ...i, read: true } : i));
+}
+
+export function getAutoClaimRule(address: string): AutoClaimRule {
+  return readList<AutoClaimRule>(AUTO_CLAIM_RULES_STORAGE_KEY).find(r => r.address === address)
+    ?? { address, enabled: false, trustedSenders: [] };
+}
+
+export function saveAutoClaimRule(rule: AutoClaimRule) {
+  const rules = readList<AutoClaimRule>(AUTO_CLAIM_RULES_STORAGE_KEY).filter(r => r.address !== rule.address);
+  writeList(AUTO_CLAIM_RULES_STORAGE_KEY, [...rules, rule]);
+}
+
+export function matchesAutoClaimRule(rule: AutoClaimRule, item: ClaimInboxItem): boolean {
+  if (!rule.enabled || item.amountRaw === null) return false;
+  if (rule.minAmount !== undefined && item.amountRaw < Math.round(rule.minAmount * MU_FACTOR)) return false;
+  return rule.trustedSenders.length === 0 || rule.trustedSenders.includes(item.sender);
+}
+
+export function getClaimLedger(address?: string): ClaimLedgerEntry[] {
+  return readList<ClaimLedgerEntry>(CLAIM_LEDGER_STORAGE_KEY)
+    .filter(e => !address || e.address === address)
+    .sort((a, b) => b.at - a.at);
+}
+
+function recordClaim(entry: ClaimLedgerEntry) {
+  const ledger = [entry, ...getClaimLedger()].slice(0, MAX_LEDGER_ENTRIES);
+  writeList(CLAIM_LEDGER_STORAGE_KEY, ledger);
+}
+
+// Mirrors the node's pending list for one wallet; decrypted amounts and read state carry over between polls
+export async function refreshClaimInbox(wallet: Wallet): Promise<ClaimInboxItem[]> {
+  const pending = await getPendingPrivateTransfers(wallet.address, wallet.privateKey);
+  const known = new Map(getClaimInbox(wallet.address).map(i => [String(i.id), i]));
+  const now = Date.now();
+
+  const items = await Promise.all(pending.map(async (transfer): Promise<ClaimInboxItem> => {
+    const existing = known.get(String(transfer.id));
+    if (existing) {
+      return { ...existing, ...transfer };
+    }
+
+    let amountRaw: number | null = null;
+    try {
+      amountRaw = await readPendingTransferAmount(transfer, wallet.privateKey);
+    } catch (error) {
+      console.error('Failed to decrypt amount for transfer:', transfer.id, error);
+    }
+    return { ...transfer, address: wallet.address, amountRaw, firstSeenAt: now, read: false };
+  }));
+
+  const others = readList<ClaimInboxItem>(CLAIM_INBOX_STORAGE_KEY).filter(i => i.address !== wallet.address);
+  writeList(CLAIM_INBOX_STORAGE_KEY, [...others, ...items]);
+  return items;
+}
+
+async function claimItem(wallet: Wallet, item: ClaimInboxItem, auto: boolean): Promise<ClaimLedgerEntry> {
+  const result: ClaimResult = item.amountRaw === null
+    ? { success: false, error: "Cannot decrypt transfer amount" }
+    : await claimDecryptedTransfer(wallet, String(item.id), item.amountRaw);
+
+  const at = Date.now();
+  const entry: ClaimLedgerEntry = {
+    id: `${wallet.address}-${item.id}-${at}`,
+    address: wallet.address,
+    transferId: String(item.id),
+    sender: item.sender,
+    amountRaw: item.amountRaw,
+    status: result.success ? 'claimed' : 'failed',
+    auto,
+    error: result.error,
+    at
+  };
+  recordClaim(entry);
+
+  if (result.success) {
+    const inbox = readList<ClaimInboxItem>(CLAIM_INBOX_STORAGE_KEY);
+    writeList(CLAIM_INBOX_STORAGE_KEY, inbox.filter(i => !isSameTransfer(i, wallet.address, String(item.id))));
+  }
+  return entry;
+}
+
+export async function claimInboxTransfer(wallet: Wallet, transferId: string): Promise<ClaimLedgerEntry | null> {
+  const item = getClaimInbox(wallet.address).find(i => String(i.id) === String(transferId));
+  return item ? claimItem(wallet, item, false) : null;
+}
+
+// Claims go through the private balance pipeline, which queues them per address, so they can all start at once
+export async function claimAllInboxTransfers(wallet: Wallet): Promise<ClaimLedgerEntry[]> {
+  return Promise.all(getClaimInbox(wallet.address).map(item => claimItem(wallet, item, false)));
+}
+
+async function pollWallets(wallets: Wallet[]): Promise<ClaimLedgerEntry[]> {
+  const autoClaimed: ClaimLedgerEntry[] = [];
+  const failedAutoClaims = new Set(getClaimLedger().filter(e => e.auto && e.status === 'failed').map(e => `${e.address}-${e.transferId}`));
+
+  for (const wallet of wallets) {
+    let items: ClaimInboxItem[];
+    try {
+      items = await refreshClaimInbox(wallet);
+    } catch {
+      continue;
+    }
+
+    // A transfer that failed to auto-claim once is left for the user instead of being retried every poll
+    const rule = getAutoClaimRule(wallet.address);
+    const matching = items.filter(i => matchesAutoClaimRule(rule, i) && !failedAutoClaims.has(`${wallet.address}-${i.id}`));
+    for (const item of matching) {
+      autoClaimed.push(await claimItem(wallet, item, true));
+    }
+  }
+  return autoClaimed;
+}
+
+// Only one tab polls at a time, so two tabs never auto-claim the same transfer
+export async function pollClaimInbox(wallets: Wallet[]): Promise<ClaimLedgerEntry[]> {
+  if (isPolling) return [];
+  isPolling = true;
+
+  try {
+    if (navigator.locks) {
+      return await navigator.locks.request('octra-claim-inbox', { ifAvailable: true }, lock => lock ? pollWallets(wallets) : []);
+    }
+    return await pollWallets(wallets);
+  } finally {
+    isPolling = false;
+  }
+}
+
+export function watchClaimInbox(wallets: Wallet[], onAutoClaimed?: (entries: ClaimLedgerEntry[]) => void): () => void {
+  const poll = () => {
+    pollClaimInbox(wallets)
+      .then(entries => {
+        if (entries.length > 0) onAutoClaimed?.(entries);
+      })
+      .catch(error => console.error('Claim inbox poll failed:', error));
+  };
+
+  poll();
+  const interval = setInterval(poll, POLL_INTERVAL_MS);
+  return () => clearInterval(interval);
+}
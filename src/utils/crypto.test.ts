@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import * as nacl from 'tweetnacl';
+import {
+  bufferToBase64,
+  decryptPrivateAmount,
+  deriveSharedSecretForClaim,
+  deriveSharedSecretForTransfer,
+  encryptPrivateAmount
+} from './crypto';
+
+function createRecipient(firstByte: (byte: number) => boolean) {
+  for (;;) {
+    const seed = nacl.randomBytes(32);
+    const { publicKey } = nacl.sign.keyPair.fromSeed(seed);
+    if (firstByte(publicKey[0])) {
+      return { privateKey: bufferToBase64(seed), publicKey: bufferToBase64(publicKey) };
+    }
+  }
+}
+
+describe('private transfer key agreement', () => {
+  // The secret hashes the two public keys in byte order, so cover a recipient key sorting on either side
+  it.each([
+    ['before', (byte: number) => byte < 0x10],
+    ['after', (byte: number) => byte > 0xef]
+  ])('derives the same secret when the recipient key sorts %s the ephemeral key', async (_, firstByte) => {
+    const recipient = createRecipient(firstByte);
+
+    for (let i = 0; i < 4; i++) {
+      const { ephemeralKey, sharedSecret } = await deriveSharedSecretForTransfer(recipient.publicKey);
+      const claimSecret = await deriveSharedSecretForClaim(recipient.privateKey, ephemeralKey);
+      expect(claimSecret).toEqual(sharedSecret);
+    }
+  });
+
+  it('uses a fresh ephemeral key for every transfer', async () => {
+    const recipient = createRecipient(() => true);
+    const first = await deriveSharedSecretForTransfer(recipient.publicKey);
+    const second = await deriveSharedSecretForTransfer(recipient.publicKey);
+
+    expect(first.ephemeralKey).not.toBe(second.ephemeralKey);
+    expect(first.sharedSecret).not.toEqual(second.sharedSecret);
+  });
+
+  it('gives a different recipient a different secret', async () => {
+    const recipient = createRecipient(() => true);
+    const other = createRecipient(() => true);
+    const { ephemeralKey, sharedSecret } = await deriveSharedSecretForTransfer(recipient.publicKey);
+
+    expect(await deriveSharedSecretForClaim(other.privateKey, ephemeralKey)).not.toEqual(sharedSecret);
+  });
+
+  it('rejects a malformed recipient public key', async () => {
+    await expect(deriveSharedSecretForTransfer(bufferToBase64(nacl.randomBytes(16)))).rejects.toThrow('Invalid recipient public key');
+  });
+});
+
+describe('private transfer amounts', () => {
+  it.each([0, 1, 1_000_000, 123_456_789_012, Number.MAX_SAFE_INTEGER])('round-trips %d from sender to recipient', async (amountRaw) => {
+    const recipient = createRecipient(() => true);
+    const { ephemeralKey, sharedSecret } = await deriveSharedSecretForTransfer(recipient.publicKey);
+    const encrypted = await encryptPrivateAmount(amountRaw, sharedSecret);
+
+    expect(encrypted.startsWith('v2|')).toBe(true);
+    const claimSecret = await deriveSharedSecretForClaim(recipient.privateKey, ephemeralKey);
+    expect(await decryptPrivateAmount(encrypted, claimSecret)).toBe(amountRaw);
+  });
+
+  it('does not decrypt with another recipient\'s secret', async () => {
+    const recipient = createRecipient(() => true);
+    const other = createRecipient(() => true);
+    const { ephemeralKey, sharedSecret } = await deriveSharedSecretForTransfer(recipient.publicKey);
+    const encrypted = await encryptPrivateAmount(5_000_000, sharedSecret);
+
+    expect(await decryptPrivateAmount(encrypted, await deriveSharedSecretForClaim(other.privateKey, ephemeralKey))).toBeNull();
+  });
+
+  it('does not decrypt a tampered ciphertext', async () => {
+    const recipient = createRecipient(() => true);
+    const { sharedSecret } = await deriveSharedSecretForTransfer(recipient.publicKey);
+    const encrypted = await encryptPrivateAmount(5_000_000, sharedSecret);
+    const bytes = Buffer.from(encrypted.slice(3), 'base64');
+    bytes[bytes.length - 1] ^= 1;
+
+    expect(await decryptPrivateAmount(`v2|${bytes.toString('base64')}`, sharedSecret)).toBeNull();
+  });
+});
@@ -1,5 +1,6 @@
 import * as bip39 from 'bip39';
 import * as nacl from 'tweetnacl';
+import { EncryptedBalanceFormat } from '../types/wallet';
 
 const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
 
@@ -73,21 +74,62 @@ export function mnemonicToSeed(mnemonic: string): Buffer {
   return bip39.mnemonicToSeedSync(mnemonic);
 }
 
-export async function generateWalletFromMnemonic(mnemonic: string) {
+const HARDENED_OFFSET = 0x80000000;
+
+// SLIP-0010 style hardened Ed25519 child derivation; Ed25519 only supports hardened indexes
+export async function deriveHardenedChildKey(parentKey: Buffer, chainCode: Buffer, index: number) {
+  if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+    throw new Error('Invalid derivation index');
+  }
+
+  const data = Buffer.alloc(37);
+  parentKey.copy(data, 1);
+  data.writeUInt32BE(index + HARDENED_OFFSET, 33);
+
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    chainCode,
+    { name: 'HMAC', hash: 'SHA-512' },
+    false,
+    ['sign']
+  );
+
+  const macBuffer = Buffer.from(await crypto.subtle.sign('HMAC', cryptoKey, data));
+
+  return {
+    privateKey: macBuffer.slice(0, 32),
+    chainCode: macBuffer.slice(32, 64)
+  };
+}
+
+// Account 0 is the master key itself so wallets created before HD support keep their address;
+// account n > 0 is the hardened child m/n'
+export async function deriveAccountKey(seed: Buffer, index: number): Promise<Buffer> {
+  const { masterPrivateKey, masterChainCode } = await deriveMasterKey(seed);
+  if (index === 0) {
+    return masterPrivateKey;
+  }
+
+  const { privateKey } = await deriveHardenedChildKey(masterPrivateKey, masterChainCode, index);
+  return privateKey;
+}
+
+export async function generateWalletFromMnemonic(mnemonic: string, index: number = 0) {
   if (!validateMnemonic(mnemonic)) {
     throw new Error('Invalid mnemonic phrase');
   }
 
   const seed = mnemonicToSeed(mnemonic);
-  const { masterPrivateKey } = await deriveMasterKey(seed);
+  const accountKey = await deriveAccountKey(seed, index);
   
-  const keyPair = nacl.sign.keyPair.fromSeed(masterPrivateKey);
+  const keyPair = nacl.sign.keyPair.fromSeed(accountKey);
   const privateKey = Buffer.from(keyPair.secretKey.slice(0, 32));
   const publicKey = Buffer.from(keyPair.publicKey);
   const address = await createOctraAddress(publicKey);
 
   return {
     mnemonic,
+    derivationIndex: index,
     privateKey: bufferToBase64(privateKey),
     publicKey: bufferToHex(publicKey),
     address,
@@ -138,29 +180,51 @@ export async function encryptClientBalance(balance: number, privkeyB64: string):
   return "v2|" + bufferToBase64(Buffer.from(combined));
 }
 
-export async function decryptClientBalance(encryptedData: string, privkeyB64: string): Promise<number> {
-  if (encryptedData === "0" || !encryptedData) {
-    return 0;
+// Balances written before v2 are bare base64: 16-byte nonce, 16-byte SHA-256 tag, then a SHA-256 keystream XOR
+const V1_HEADER_LENGTH = 32;
+
+function deriveLegacyEncryptionKey(privkeyB64: string): Promise<Uint8Array> {
+  const privkeyBytes = base64ToBuffer(privkeyB64);
+  const salt = new TextEncoder().encode("octra_encrypted_balance_v1");
+  const combined = new Uint8Array(salt.length + privkeyBytes.length);
+  combined.set(salt);
+  combined.set(privkeyBytes, salt.length);
+  return crypto.subtle.digest('SHA-256', combined).then(hash => new Uint8Array(hash));
+}
+
+async function sha256Concat(...parts: Uint8Array[]): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', Buffer.concat(parts)));
+}
+
+async function decryptV1(data: Buffer, key: Uint8Array): Promise<number | null> {
+  const nonce = data.subarray(0, 16);
+  const tag = data.subarray(16, V1_HEADER_LENGTH);
+  const encrypted = data.subarray(V1_HEADER_LENGTH);
+
+  const expectedTag = (await sha256Concat(nonce, encrypted, key)).slice(0, 16);
+  let diff = 0;
+  for (let i = 0; i < 16; i++) {
+    diff |= tag[i] ^ expectedTag[i];
   }
-  
-  if (!encryptedData.startsWith("v2|")) {
-    // Handle v1 format (legacy)
-    return 0; // For now, return 0 for v1 format
+  if (diff !== 0) {
+    return null;
   }
-  
+
+  const keyHash = await sha256Concat(key, nonce);
+  const decrypted = encrypted.map((byte, i) => byte ^ keyHash[i % keyHash.length]);
+  const text = new TextDecoder().decode(decrypted);
+  return /^\d+$/.test(text) ? parseInt(text) : null;
+}
+
+async function decryptV2(data: Buffer, key: Uint8Array): Promise<number | null> {
+  if (data.length < 28) {
+    return null;
+  }
+
   try {
-    const b64Data = encryptedData.slice(3);
-    const raw = base64ToBuffer(b64Data);
-    
-    if (raw.length < 28) {
-      return 0;
-    }
-    
-    const nonce = raw.slice(0, 12);
-    const ciphertext = raw.slice(12);
-    
-    const key = await deriveEncryptionKey(privkeyB64);
-    
+    const nonce = data.slice(0, 12);
+    const ciphertext = data.slice(12);
+
     const cryptoKey = await crypto.subtle.importKey(
       'raw',
       key,
@@ -168,35 +232,65 @@ export async function decryptClientBalance(encryptedData: string, privkeyB64: st
       false,
       ['decrypt']
     );
-    
+
     const plaintext = await crypto.subtle.decrypt(
       { name: 'AES-GCM', iv: nonce },
       cryptoKey,
       ciphertext
     );
-    
-    return parseInt(new TextDecoder().decode(plaintext));
+
+    const text = new TextDecoder().decode(plaintext);
+    return /^\d+$/.test(text) ? parseInt(text) : null;
   } catch {
+    return null;
+  }
+}
+
+// null means the data is in no format this wallet knows; callers must not treat that as a zero balance
+export function getEncryptedDataFormat(encryptedData: string): EncryptedBalanceFormat | null {
+  if (encryptedData === "0" || !encryptedData) {
+    return 'empty';
+  }
+  if (encryptedData.startsWith("v2|")) {
+    return 'v2';
+  }
+  if (/^[A-Za-z0-9+/]+={0,2}$/.test(encryptedData) && encryptedData.length % 4 === 0 && base64ToBuffer(encryptedData).length > V1_HEADER_LENGTH) {
+    return 'v1';
+  }
+  return null;
+}
+
+export async function decryptClientBalance(encryptedData: string, privkeyB64: string): Promise<number> {
+  const format = getEncryptedDataFormat(encryptedData);
+  if (format === 'empty') {
     return 0;
   }
+  if (!format) {
+    throw new Error('Unsupported encrypted balance format');
+  }
+
+  const balance = format === 'v1'
+    ? await decryptV1(base64ToBuffer(encryptedData), await deriveLegacyEncryptionKey(privkeyB64))
+    : await decryptV2(base64ToBuffer(encryptedData.slice(3)), await deriveEncryptionKey(privkeyB64));
+  if (balance === null) {
+    throw new Error(`Unable to decrypt ${format} encrypted balance with this key`);
+  }
+  return balance;
 }
 
 // Functions for private transfers
-export async function deriveSharedSecretForClaim(myPrivkeyB64: string, ephemeralPubkeyB64: string): Promise<Uint8Array> {
-  const sk = nacl.sign.keyPair.fromSecretKey(base64ToBuffer(myPrivkeyB64 + '='.repeat(4 - myPrivkeyB64.length % 4)));
-  const myPubkeyBytes = sk.publicKey;
-  const ephPubBytes = base64ToBuffer(ephemeralPubkeyB64);
-  
+// Both sides hash the ephemeral and recipient public keys, so the sender can derive the same secret as the claimer
+async function deriveTransferSecret(ephemeralPubkey: Uint8Array, recipientPubkey: Uint8Array): Promise<Uint8Array> {
   let smaller: Uint8Array, larger: Uint8Array;
   
   // Compare bytes to determine order
-  const comparison = Buffer.compare(Buffer.from(ephPubBytes), Buffer.from(myPubkeyBytes));
+  const comparison = Buffer.compare(Buffer.from(ephemeralPubkey), Buffer.from(recipientPubkey));
   if (comparison < 0) {
-    smaller = ephPubBytes;
-    larger = myPubkeyBytes;
+    smaller = ephemeralPubkey;
+    larger = recipientPubkey;
   } else {
-    smaller = myPubkeyBytes;
-    larger = ephPubBytes;
+    smaller = recipientPubkey;
+    larger = ephemeralPubkey;
   }
   
   const combined = new Uint8Array(smaller.length + larger.length);
@@ -215,36 +309,59 @@ export async function deriveSharedSecretForClaim(myPrivkeyB64: string, ephemeral
   return new Uint8Array(round2).slice(0, 32);
 }
 
-export async function decryptPrivateAmount(encryptedData: string, sharedSecret: Uint8Array): Promise<number | null> {
-  if (!encryptedData || !encryptedData.startsWith("v2|")) {
-    return null;
+export async function deriveSharedSecretForClaim(myPrivkeyB64: string, ephemeralPubkeyB64: string): Promise<Uint8Array> {
+  // Wallet private keys are 32-byte seeds, not 64-byte nacl secret keys
+  const sk = nacl.sign.keyPair.fromSeed(base64ToBuffer(myPrivkeyB64));
+  return deriveTransferSecret(base64ToBuffer(ephemeralPubkeyB64), sk.publicKey);
+}
+
+// Sender-side counterpart: a fresh ephemeral key per transfer, nothing secret from the sender goes into it
+export async function deriveSharedSecretForTransfer(recipientPubkeyB64: string): Promise<{ ephemeralKey: string; sharedSecret: Uint8Array }> {
+  const recipientPubkey = base64ToBuffer(recipientPubkeyB64);
+  if (recipientPubkey.length !== nacl.sign.publicKeyLength) {
+    throw new Error('Invalid recipient public key');
   }
+
+  const ephemeral = nacl.sign.keyPair();
+  return {
+    ephemeralKey: bufferToBase64(ephemeral.publicKey),
+    sharedSecret: await deriveTransferSecret(ephemeral.publicKey, recipientPubkey)
+  };
+}
+
+export async function encryptPrivateAmount(amountRaw: number, sharedSecret: Uint8Array): Promise<string> {
+  const nonce = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(amountRaw.toString());
   
-  try {
-    const raw = base64ToBuffer(encryptedData.slice(3));
-    if (raw.length < 28) {
-      return null;
-    }
-    
-    const nonce = raw.slice(0, 12);
-    const ciphertext = raw.slice(12);
-    
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      sharedSecret,
-      { name: 'AES-GCM' },
-      false,
-      ['decrypt']
-    );
-    
-    const plaintext = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv: nonce },
-      cryptoKey,
-      ciphertext
-    );
-    
-    return parseInt(new TextDecoder().decode(plaintext));
-  } catch {
-    return null;
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    sharedSecret,
+    { name: 'AES-GCM' },
+    false,
+    ['encrypt']
+  );
+  
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce },
+    cryptoKey,
+    plaintext
+  );
+  
+  const combined = new Uint8Array(nonce.length + ciphertext.byteLength);
+  combined.set(nonce);
+  combined.set(new Uint8Array(ciphertext), nonce.length);
+  
+  return "v2|" + bufferToBase64(Buffer.from(combined));
+}
+
+// v1 amounts use the same construction as v1 balances, keyed by the transfer secret
+export async function decryptPrivateAmount(encryptedData: string, sharedSecret: Uint8Array): Promise<number | null> {
+  const format = getEncryptedDataFormat(encryptedData);
+  if (format === 'v1') {
+    return decryptV1(base64ToBuffer(encryptedData), sharedSecret);
+  }
+  if (format === 'v2') {
+    return decryptV2(base64ToBuffer(encryptedData.slice(3)), sharedSecret);
   }
+  return null;
 }
\ No newline at end of file
@@ -0,0 +1,174 @@
+import { ConnectedDApp, DAppConnectionRequest, DAppConnectionStatus, DAppRequestError, DAppTransactionRequest, Wallet } from '../types/wallet';
+import { isOctraAddress } from './domain';
+import { validatePayoutAmount } from './payoutFile';
+import { isOriginBlocked, validateCallbackUrl, validateDAppOrigin } from './origin';
+import { signConnectionProof } from './message';
+
+export const DAPP_CONNECTIONS_UPDATED_EVENT = 'octra-dapp-connections-updated';
+export const DAPP_CONNECTIONS_STORAGE_KEY = 'connectedDApps';
+
+function writeConnectedDApps(connections: ConnectedDApp[]) {
+  localStorage.setItem(DAPP_CONNECTIONS_STORAGE_KEY, JSON.stringify(connections));
+  window.dispatchEvent(new CustomEvent(DAPP_CONNECTIONS_UPDATED_EVENT));
+}
+
+// Older versions appended a new entry on every approval; the most recent one per origin wins
+export function getConnectedDApps(): ConnectedDApp[] {
+  const stored: ConnectedDApp[] = JSON.parse(localStorage.getItem(DAPP_CONNECTIONS_STORAGE_KEY) || '[]');
+  const byOrigin = new Map<string, ConnectedDApp>();
+  for (const connection of stored) {
+    byOrigin.set(connection.origin, connection);
+  }
+  return [...byOrigin.values()];
+}
+
+export function getDAppConnectionStatus(connection: ConnectedDApp): DAppConnectionStatus {
+  if (connection.revokedAt) return 'revoked';
+  if (connection.expiresAt && connection.expiresAt <= Date.now()) return 'expired';
+  return 'active';
+}
+
+// Only active connections count; expired and revoked ones need a new approval
+export function findConnectedDApp(origin: string): ConnectedDApp | null {
+  const connection = getConnectedDApps().find(d => d.origin === origin);
+  return connection && getDAppConnectionStatus(connection) === 'active' ? connection : null;
+}
+
+export function isDAppOriginRevoked(origin: string): boolean {
+  return getConnectedDApps().some(d => d.origin === origin && d.revokedAt);
+}
+
+function updateConnection(origin: string, update: (connection: ConnectedDApp) => ConnectedDApp | null) {
+  const connections = getConnectedDApps().flatMap(connection => {
+    if (connection.origin !== origin) return [connection];
+    const updated = update(connection);
+    return updated ? [updated] : [];
+  });
+  writeConnectedDApps(connections);
+}
+
+export function saveDAppConnection(request: DAppConnectionRequest, wallet: Wallet): ConnectedDApp {
+  const now = Date.now();
+  const connection: ConnectedDApp = {
+    origin: request.origin,
+    appName: request.appName || request.origin,
+    connectedAt: now,
+    permissions: request.permissions,
+    selectedAddress: wallet.address,
+    lastUsedAt: now
+  };
+
+  writeConnectedDApps([...getConnectedDApps().filter(d => d.origin !== request.origin), connection]);
+  return connection;
+}
+
+export function setDAppConnectionAccount(origin: string, address: string) {
+  updateConnection(origin, connection => ({ ...connection, selectedAddress: address }));
+}
+
+export function setDAppConnectionExpiry(origin: string, expiresAt: number | null) {
+  updateConnection(origin, connection => ({ ...connection, expiresAt }));
+}
+
+export function revokeDAppConnection(origin: string) {
+  updateConnection(origin, connection => ({ ...connection, revokedAt: Date.now() }));
+}
+
+// Forgets the origin entirely, which also lifts a revocation
+export function removeDAppConnection(origin: string) {
+  updateConnection(origin, () => null);
+}
+
+export function touchDAppConnection(origin: string) {
+  updateConnection(origin, connection => ({ ...connection, lastUsedAt: Date.now() }));
+}
+
+// ?request_type=transaction&origin=...&to=...&amount=...&message=...&callback_url=...&request_id=...
+// origin is only a query param, so the referrer is what ties the request to the page that sent it
+export function getDAppTransactionRequest(search: string, referrer: string): DAppTransactionRequest | null {
+  const params = new URLSearchParams(search);
+  const origin = params.get('origin');
+  const callbackUrl = params.get('callback_url');
+  if (params.get('request_type') !== 'transaction' || !origin || !callbackUrl) return null;
+
+  // Without a callback on the requesting origin there is nowhere safe to report the result
+  if (validateDAppOrigin(origin) || validateCallbackUrl(callbackUrl, origin)) return null;
+
+  return {
+    origin,
+    to: params.get('to') || '',
+    amount: params.get('amount') || '',
+    message: params.get('message') || undefined,
+    callbackUrl,
+    requestId: params.get('request_id') || undefined,
+    referrerOrigin: referrer ? new URL(referrer).origin : undefined
+  };
+}
+
+// Without a referrer (e.g. Referrer-Policy: no-referrer) the request can only claim its origin
+export function isDAppTransactionOriginVerified(request: DAppTransactionRequest): boolean {
+  return request.referrerOrigin === request.origin;
+}
+
+// Checks the request against the stored connection and returns the wallet that should sign it
+export function validateDAppTransactionRequest(
+  request: DAppTransactionRequest,
+  wallets: Wallet[]
+): { wallet: Wallet; error?: undefined } | { wallet?: undefined; error: DAppRequestError } {
+  if (!isOctraAddress(request.to)) {
+    return { error: { code: 'invalid_request', message: 'to must be an oct address' } };
+  }
+  const amountError = validatePayoutAmount(request.amount);
+  if (amountError) {
+    return { error: { code: 'invalid_request', message: amountError } };
+  }
+
+  if (request.referrerOrigin && request.referrerOrigin !== request.origin) {
+    return { error: { code: 'permission_denied', message: 'Request was not sent from origin' } };
+  }
+  if (isOriginBlocked(request.origin)) {
+    return { error: { code: 'permission_denied', message: 'Origin is blocked' } };
+  }
+  if (isDAppOriginRevoked(request.origin)) {
+    return { error: { code: 'permission_denied', message: 'Origin has been revoked' } };
+  }
+  const connection = findConnectedDApp(request.origin);
+  if (!connection) {
+    return { error: { code: 'not_connected', message: 'Origin is not connected to this wallet' } };
+  }
+  if (!connection.permissions.includes('call_methods')) {
+    return { error: { code: 'permission_denied', message: 'Connection does not allow transaction requests' } };
+  }
+
+  const wallet = wallets.find(w => w.address === connection.selectedAddress);
+  if (!wallet) {
+    return { error: { code: 'account_unavailable', message: 'Connected account is not in this wallet' } };
+  }
+
+  return { wallet };
+}
+
+export function buildDAppCallbackUrl(request: DAppTransactionRequest, result: Record<string, string>): string {
+  const url = new URL(request.callbackUrl);
+  if (request.requestId) {
+    url.searchParams.set('request_id', request.requestId);
+  }
+  for (const [key, value] of Object.entries(result)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+export function buildConnectionSuccessUrl(request: DAppConnectionRequest, wallet: Wallet): string {
+  const url = new URL(request.successUrl!);
+  url.searchParams.set('account_id', wallet.address);
+  url.searchParams.set('public_key', wallet.publicKey || '');
+  if (request.nonce) {
+    const proof = signConnectionProof(wallet, request.origin, request.nonce);
+    url.searchParams.set('public_key', proof.publicKey);
+    url.searchParams.set('nonce', proof.nonce);
+    url.searchParams.set('timestamp', proof.timestamp.toString());
+    url.searchParams.set('signature', proof.signature);
+  }
+  return url.toString();
+}
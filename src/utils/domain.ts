@@ -0,0 +1,201 @@
+import { DomainRecord, DomainResolverConfig } from '../types/wallet';
+import { makeRPCRequest } from './rpc';
+
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const OCT_ADDRESS_REGEX = /^oct[1-9A-HJ-NP-Za-km-z]{44}$/;
+const DOMAIN_NAME_REGEX = /^([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+oct$/i;
+
+const domainCache = new Map<string, DomainRecord>();
+const reverseCache = new Map<string, { name: string | null; expiresAt: number }>();
+let registryCache: { url: string; entries: Record<string, string>; expiresAt: number } | null = null;
+
+export function isDomainName(input: string): boolean {
+  return DOMAIN_NAME_REGEX.test(input.trim());
+}
+
+export function isOctraAddress(input: string): boolean {
+  return OCT_ADDRESS_REGEX.test(input.trim());
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+export function getDomainResolverConfig(): DomainResolverConfig {
+  const saved = localStorage.getItem('domainResolverConfig');
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved);
+      return { cacheTtlMs: DEFAULT_CACHE_TTL_MS, ...parsed };
+    } catch {
+      console.warn('Invalid domain resolver config, falling back to defaults');
+    }
+  }
+
+  // A local stand-in server takes precedence when configured for development
+  const localBackend = import.meta.env.VITE_DOMAIN_API_BACKEND;
+  if (localBackend) {
+    return { backend: 'local', url: localBackend, cacheTtlMs: DEFAULT_CACHE_TTL_MS };
+  }
+
+  return { backend: 'rpc', cacheTtlMs: DEFAULT_CACHE_TTL_MS };
+}
+
+export function saveDomainResolverConfig(config: DomainResolverConfig) {
+  localStorage.setItem('domainResolverConfig', JSON.stringify(config));
+  clearDomainCache();
+}
+
+export function clearDomainCache() {
+  domainCache.clear();
+  reverseCache.clear();
+  registryCache = null;
+}
+
+async function loadRegistry(url: string, ttlMs: number): Promise<Record<string, string>> {
+  if (registryCache && registryCache.url === url && registryCache.expiresAt > Date.now()) {
+    return registryCache.entries;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Registry fetch failed: ${response.status}`);
+  }
+
+  // Accept either { "alice.oct": "oct..." } or { "domains": { ... } }
+  const data = await response.json();
+  const rawEntries: Record<string, string> = data.domains || data;
+  const entries: Record<string, string> = {};
+  for (const [name, address] of Object.entries(rawEntries)) {
+    if (typeof address === 'string') {
+      entries[normalizeName(name)] = address;
+    }
+  }
+
+  registryCache = { url, entries, expiresAt: Date.now() + ttlMs };
+  return entries;
+}
+
+async function lookupAddress(name: string, config: DomainResolverConfig): Promise<string | null> {
+  switch (config.backend) {
+    case 'registry': {
+      if (!config.url) throw new Error('Registry URL not configured');
+      const entries = await loadRegistry(config.url, config.cacheTtlMs);
+      return entries[name] || null;
+    }
+    case 'local':
+    case 'rpc': {
+      const response = config.backend === 'local'
+        ? await fetch(`${(config.url || '').replace(/\/+$/, '')}/resolve/${encodeURIComponent(name)}`)
+        : await makeRPCRequest(`/domain/resolve/${encodeURIComponent(name)}`);
+
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Domain lookup failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.address || null;
+    }
+  }
+}
+
+async function lookupName(address: string, config: DomainResolverConfig): Promise<string | null> {
+  switch (config.backend) {
+    case 'registry': {
+      if (!config.url) throw new Error('Registry URL not configured');
+      const entries = await loadRegistry(config.url, config.cacheTtlMs);
+      const match = Object.entries(entries).find(([, entryAddress]) => entryAddress === address);
+      return match ? match[0] : null;
+    }
+    case 'local':
+    case 'rpc': {
+      const response = config.backend === 'local'
+        ? await fetch(`${(config.url || '').replace(/\/+$/, '')}/reverse/${encodeURIComponent(address)}`)
+        : await makeRPCRequest(`/domain/reverse/${encodeURIComponent(address)}`);
+
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Reverse lookup failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.name || null;
+    }
+  }
+}
+
+export async function resolveDomain(name: string, options: { bypassCache?: boolean } = {}): Promise<DomainRecord | null> {
+  const normalized = normalizeName(name);
+  if (!isDomainName(normalized)) {
+    throw new Error('Invalid domain name');
+  }
+
+  const cached = domainCache.get(normalized);
+  if (!options.bypassCache && cached && cached.expiresAt > Date.now()) {
+    return cached;
+  }
+
+  const config = getDomainResolverConfig();
+  const address = await lookupAddress(normalized, config);
+
+  if (!address) {
+    domainCache.delete(normalized);
+    return null;
+  }
+
+  if (!isOctraAddress(address)) {
+    throw new Error(`Domain ${normalized} resolves to an invalid address`);
+  }
+
+  const now = Date.now();
+  const record: DomainRecord = {
+    name: normalized,
+    address,
+    source: config.backend,
+    resolvedAt: now,
+    expiresAt: now + config.cacheTtlMs
+  };
+  domainCache.set(normalized, record);
+  reverseCache.set(address, { name: normalized, expiresAt: record.expiresAt });
+
+  return record;
+}
+
+export async function reverseLookup(address: string): Promise<string | null> {
+  const cached = reverseCache.get(address);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.name;
+  }
+
+  const config = getDomainResolverConfig();
+  try {
+    const name = await lookupName(address, config);
+    reverseCache.set(address, { name, expiresAt: Date.now() + config.cacheTtlMs });
+    return name;
+  } catch (error) {
+    console.warn('Reverse lookup failed:', error);
+    return null;
+  }
+}
+
+// Re-resolves every name right before signing and returns the names whose record
+// no longer points at the address the user previewed
+export async function findChangedDomainRecords(entries: Array<{ name: string; address: string }>): Promise<string[]> {
+  const domainEntries = entries.filter(entry => isDomainName(entry.name));
+  const changed: string[] = [];
+
+  await Promise.all(domainEntries.map(async (entry) => {
+    try {
+      const record = await resolveDomain(entry.name, { bypassCache: true });
+      if (!record || record.address !== entry.address) {
+        changed.push(entry.name);
+      }
+    } catch {
+      changed.push(entry.name);
+    }
+  }));
+
+  return changed;
+}
@@ -0,0 +1,201 @@
+import { EncryptedBalanceResponse, PendingPrivateTransfer, PrivateTransferResult, ClaimResult } from '../types/wallet';
+import { encryptClientBalance } from './crypto';
+import { makeRPCRequest } from './rpc';
+import { isLegacyKeyDisclosureEnabled } from './nodeAuth';
+
+// Old node endpoints that take the raw private key. Only reachable when the user has explicitly
+// opted in, and only as a fallback for nodes that don't accept signed requests.
+
+const MU_FACTOR = 1_000_000;
+
+async function makeAPIRequest(endpoint: string, options: RequestInit = {}): Promise<Response> {
+  if (!isLegacyKeyDisclosureEnabled()) {
+    throw new Error('Legacy endpoints that send the private key to the node are disabled');
+  }
+  // The key goes to the active provider only; failing over would hand it to every configured node in turn
+  return makeRPCRequest(endpoint, options, { failover: false });
+}
+
+export async function legacyFetchEncryptedBalance(address: string, privateKey: string): Promise<EncryptedBalanceResponse | null> {
+  try {
+    const response = await makeAPIRequest(`/view_encrypted_balance/${address}`, {
+      headers: {
+        'X-Private-Key': privateKey
+      }
+    });
+    
+    if (!response.ok) {
+      return null;
+    }
+    
+    const data = await response.json();
+    
+    return {
+      public: parseFloat(data.public_balance?.split(' ')[0] || '0'),
+      public_raw: parseInt(data.public_balance_raw || '0'),
+      encrypted: parseFloat(data.encrypted_balance?.split(' ')[0] || '0'),
+      encrypted_raw: parseInt(data.encrypted_balance_raw || '0'),
+      total: parseFloat(data.total_balance?.split(' ')[0] || '0'),
+      // These are the node's own figures; nothing here was decrypted locally
+      verification: 'unverified'
+    };
+  } catch (error) {
+    console.error('Error fetching encrypted balance:', error);
+    return null;
+  }
+}
+
+// Builds on the caller's verified balance rather than the legacy endpoint's unverified figure
+export async function legacyEncryptBalance(address: string, amount: number, privateKey: string, currentEncryptedRaw: number): Promise<{ success: boolean; tx_hash?: string; error?: string }> {
+  try {
+    const newEncryptedRaw = currentEncryptedRaw + Math.floor(amount * MU_FACTOR);
+    
+    const encryptedValue = await encryptClientBalance(newEncryptedRaw, privateKey);
+    
+    const data = {
+      address,
+      amount: Math.floor(amount * MU_FACTOR).toString(),
+      private_key: privateKey,
+      encrypted_data: encryptedValue
+    };
+    
+    const response = await makeAPIRequest('/encrypt_balance', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+    
+    if (response.ok) {
+      const result = await response.json();
+      return { success: true, tx_hash: result.tx_hash };
+    } else {
+      const error = await response.text();
+      return { success: false, error };
+    }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export async function legacyDecryptBalance(address: string, amount: number, privateKey: string, currentEncryptedRaw: number): Promise<{ success: boolean; tx_hash?: string; error?: string }> {
+  try {
+    if (currentEncryptedRaw < Math.floor(amount * MU_FACTOR)) {
+      return { success: false, error: "Insufficient encrypted balance" };
+    }
+    
+    const newEncryptedRaw = currentEncryptedRaw - Math.floor(amount * MU_FACTOR);
+    
+    const encryptedValue = await encryptClientBalance(newEncryptedRaw, privateKey);
+    
+    const data = {
+      address,
+      amount: Math.floor(amount * MU_FACTOR).toString(),
+      private_key: privateKey,
+      encrypted_data: encryptedValue
+    };
+    
+    const response = await makeAPIRequest('/decrypt_balance', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+    
+    if (response.ok) {
+      const result = await response.json();
+      return { success: true, tx_hash: result.tx_hash };
+    } else {
+      const error = await response.text();
+      return { success: false, error };
+    }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export async function legacyCreatePrivateTransfer(fromAddress: string, toAddress: string, amount: number, fromPrivateKey: string, toPublicKey: string): Promise<PrivateTransferResult> {
+  try {
+    const data = {
+      from: fromAddress,
+      to: toAddress,
+      amount: Math.floor(amount * MU_FACTOR).toString(),
+      from_private_key: fromPrivateKey,
+      to_public_key: toPublicKey
+    };
+    
+    const response = await makeAPIRequest('/private_transfer', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+    
+    if (response.ok) {
+      const result = await response.json();
+      return {
+        success: true,
+        tx_hash: result.tx_hash,
+        ephemeral_key: result.ephemeral_key
+      };
+    } else {
+      const error = await response.text();
+      return { success: false, error };
+    }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export async function legacyGetPendingPrivateTransfers(address: string, privateKey: string): Promise<PendingPrivateTransfer[]> {
+  try {
+    const response = await makeAPIRequest(`/pending_private_transfers?address=${address}`, {
+      headers: {
+        'X-Private-Key': privateKey
+      }
+    });
+    
+    if (response.ok) {
+      const data = await response.json();
+      return data.pending_transfers || [];
+    }
+    return [];
+  } catch (error) {
+    console.error('Error fetching pending private transfers:', error);
+    return [];
+  }
+}
+
+export async function legacyClaimPrivateTransfer(recipientAddress: string, privateKey: string, transferId: string): Promise<ClaimResult> {
+  try {
+    const data = {
+      recipient_address: recipientAddress,
+      private_key: privateKey,
+      transfer_id: transferId
+    };
+    
+    const response = await makeAPIRequest('/claim_private_transfer', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+    
+    if (response.ok) {
+      const result = await response.json();
+      return {
+        success: true,
+        amount: result.amount
+      };
+    } else {
+      const error = await response.text();
+      return { success: false, error };
+    }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
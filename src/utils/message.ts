@@ -0,0 +1,123 @@
+import * as nacl from 'tweetnacl';
+import { ConnectionProof, SignedMessage, Wallet } from '../types/wallet';
+import { base64ToBuffer, createOctraAddress } from './crypto';
+
+const BLOB_TYPE = 'octra-signed-message';
+const BLOB_VERSION = 1;
+
+// Signed bytes always start with this prefix, so a signed message can never be a valid transaction
+const MESSAGE_PREFIX = 'Octra Signed Message:\n';
+// Connection proofs are signed under their own prefix, so no message a site asks to sign can pass as one
+const CONNECTION_PROOF_PREFIX = 'Octra Connection Proof Signature:\n';
+const CONNECTION_PROOF_HEADER = 'Octra Connection Proof';
+
+export function getMessageSigningBytes(message: string): Uint8Array {
+  return new TextEncoder().encode(MESSAGE_PREFIX + message);
+}
+
+export function signMessage(wallet: Wallet, message: string): SignedMessage {
+  if (message.startsWith(CONNECTION_PROOF_HEADER)) {
+    throw new Error('Refusing to sign a message that looks like a connection proof');
+  }
+
+  const keyPair = nacl.sign.keyPair.fromSeed(Buffer.from(wallet.privateKey, 'base64'));
+  const signature = nacl.sign.detached(getMessageSigningBytes(message), keyPair.secretKey);
+
+  return {
+    type: BLOB_TYPE,
+    version: BLOB_VERSION,
+    address: wallet.address,
+    publicKey: Buffer.from(keyPair.publicKey).toString('base64'),
+    message,
+    signature: Buffer.from(signature).toString('base64')
+  };
+}
+
+// The origin is part of the signed text but never sent back; the verifier supplies the origin it expects
+export function getConnectionProofMessage(origin: string, nonce: string, address: string, timestamp: number): string {
+  return [
+    CONNECTION_PROOF_HEADER,
+    `Origin: ${origin}`,
+    `Nonce: ${nonce}`,
+    `Address: ${address}`,
+    `Timestamp: ${timestamp}`
+  ].join('\n');
+}
+
+export function getConnectionProofSigningBytes(origin: string, nonce: string, address: string, timestamp: number): Uint8Array {
+  return new TextEncoder().encode(CONNECTION_PROOF_PREFIX + getConnectionProofMessage(origin, nonce, address, timestamp));
+}
+
+export function signConnectionProof(wallet: Wallet, origin: string, nonce: string): ConnectionProof {
+  const timestamp = Date.now();
+  const keyPair = nacl.sign.keyPair.fromSeed(Buffer.from(wallet.privateKey, 'base64'));
+  const signature = nacl.sign.detached(getConnectionProofSigningBytes(origin, nonce, wallet.address, timestamp), keyPair.secretKey);
+  return {
+    address: wallet.address,
+    publicKey: Buffer.from(keyPair.publicKey).toString('hex'),
+    nonce,
+    timestamp,
+    signature: Buffer.from(signature).toString('base64')
+  };
+}
+
+export function exportSignedMessage(signed: SignedMessage): string {
+  return JSON.stringify(signed, null, 2);
+}
+
+export function parseSignedMessage(input: string): SignedMessage {
+  let data;
+  try {
+    data = JSON.parse(input.trim());
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+
+  if (data?.type !== BLOB_TYPE) {
+    throw new Error('Not a signed message');
+  }
+  if (data.version !== BLOB_VERSION) {
+    throw new Error(`Unsupported signed message version ${data.version}`);
+  }
+  for (const field of ['address', 'publicKey', 'signature']) {
+    if (typeof data[field] !== 'string' || !data[field]) {
+      throw new Error(`Missing or invalid field: ${field}`);
+    }
+  }
+  if (typeof data.message !== 'string') {
+    throw new Error('Missing or invalid field: message');
+  }
+
+  return {
+    type: BLOB_TYPE,
+    version: BLOB_VERSION,
+    address: data.address,
+    publicKey: data.publicKey,
+    message: data.message,
+    signature: data.signature
+  };
+}
+
+// Checks the signature and that the key belongs to the address, optionally the address the caller expects
+export async function verifySignedMessage(signed: SignedMessage, expectedAddress?: string): Promise<{ valid: boolean; error?: string }> {
+  if (expectedAddress && expectedAddress !== signed.address) {
+    return { valid: false, error: `Message was signed by ${signed.address}, not ${expectedAddress}` };
+  }
+
+  const publicKey = base64ToBuffer(signed.publicKey);
+  const signature = base64ToBuffer(signed.signature);
+  if (publicKey.length !== nacl.sign.publicKeyLength || signature.length !== nacl.sign.signatureLength) {
+    return { valid: false, error: 'Malformed public key or signature' };
+  }
+
+  const derivedAddress = await createOctraAddress(publicKey);
+  if (derivedAddress !== signed.address) {
+    return { valid: false, error: 'Public key does not match address' };
+  }
+
+  if (!nacl.sign.detached.verify(getMessageSigningBytes(signed.message), signature, publicKey)) {
+    return { valid: false, error: 'Signature verification failed' };
+  }
+
+  return { valid: true };
+}
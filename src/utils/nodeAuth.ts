@@ -0,0 +1,49 @@
+import * as nacl from 'tweetnacl';
+import { bufferToBase64 } from './crypto';
+
+// Opt-in for nodes that still only offer the old endpoints, which take the raw private key
+export const LEGACY_KEY_ENDPOINTS_STORAGE_KEY = 'legacyKeyEndpoints';
+
+const REQUEST_DOMAIN = 'octra-node-request-v1';
+
+export function isLegacyKeyDisclosureEnabled(): boolean {
+  return localStorage.getItem(LEGACY_KEY_ENDPOINTS_STORAGE_KEY) === 'true';
+}
+
+export function setLegacyKeyDisclosureEnabled(enabled: boolean) {
+  if (enabled) {
+    localStorage.setItem(LEGACY_KEY_ENDPOINTS_STORAGE_KEY, 'true');
+  } else {
+    localStorage.removeItem(LEGACY_KEY_ENDPOINTS_STORAGE_KEY);
+  }
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Buffer.from(hash).toString('hex');
+}
+
+export async function getNodeRequestSigningData(method: string, endpoint: string, timestamp: number, body: string): Promise<string> {
+  return [REQUEST_DOMAIN, method.toUpperCase(), endpoint, timestamp, await sha256Hex(body)].join('\n');
+}
+
+// Proves control of the address to the node with a signature over the request; the key itself never leaves the browser
+export async function signNodeRequest(
+  address: string,
+  privateKey: string,
+  method: string,
+  endpoint: string,
+  body = ''
+): Promise<Record<string, string>> {
+  const keyPair = nacl.sign.keyPair.fromSeed(Buffer.from(privateKey, 'base64'));
+  const timestamp = Date.now();
+  const signingData = await getNodeRequestSigningData(method, endpoint, timestamp, body);
+  const signature = nacl.sign.detached(new TextEncoder().encode(signingData), keyPair.secretKey);
+
+  return {
+    'X-Octra-Address': address,
+    'X-Octra-Public-Key': bufferToBase64(keyPair.publicKey),
+    'X-Octra-Timestamp': timestamp.toString(),
+    'X-Octra-Signature': bufferToBase64(signature)
+  };
+}
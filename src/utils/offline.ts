@@ -0,0 +1,99 @@
+import * as nacl from 'tweetnacl';
+import { SignedTransactionEnvelope, Transaction } from '../types/wallet';
+import { getTransactionSigningData } from './api';
+import { base64ToBuffer, createOctraAddress } from './crypto';
+
+const ENVELOPE_TYPE = 'octra-signed-tx';
+const ENVELOPE_VERSION = 1;
+
+export function exportSignedTransaction(transaction: Transaction): string {
+  if (!transaction.signature || !transaction.public_key) {
+    throw new Error('Transaction is not signed');
+  }
+
+  const envelope: SignedTransactionEnvelope = {
+    type: ENVELOPE_TYPE,
+    version: ENVELOPE_VERSION,
+    createdAt: Date.now(),
+    transaction
+  };
+
+  return JSON.stringify(envelope);
+}
+
+// Accepts either a full envelope or a bare signed transaction object
+export function parseSignedTransaction(input: string): Transaction {
+  let data;
+  try {
+    data = JSON.parse(input.trim());
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+
+  if (data && data.type === ENVELOPE_TYPE) {
+    if (data.version !== ENVELOPE_VERSION) {
+      throw new Error(`Unsupported signed transaction version ${data.version}`);
+    }
+    data = data.transaction;
+  }
+
+  const requiredStrings = ['from', 'to_', 'amount', 'ou', 'signature', 'public_key'];
+  for (const field of requiredStrings) {
+    if (typeof data?.[field] !== 'string' || !data[field]) {
+      throw new Error(`Missing or invalid field: ${field}`);
+    }
+  }
+  if (!Number.isInteger(data.nonce) || data.nonce < 0) {
+    throw new Error('Missing or invalid field: nonce');
+  }
+  if (typeof data.timestamp !== 'number') {
+    throw new Error('Missing or invalid field: timestamp');
+  }
+  if (!/^\d+$/.test(data.amount)) {
+    throw new Error('Amount must be an integer number of micro OCT');
+  }
+  if (data.message !== undefined && typeof data.message !== 'string') {
+    throw new Error('Invalid field: message');
+  }
+
+  const transaction: Transaction = {
+    from: data.from,
+    to_: data.to_,
+    amount: data.amount,
+    nonce: data.nonce,
+    ou: data.ou,
+    timestamp: data.timestamp,
+    signature: data.signature,
+    public_key: data.public_key
+  };
+  if (data.message) {
+    transaction.message = data.message;
+  }
+
+  return transaction;
+}
+
+export async function verifyTransactionSignature(transaction: Transaction): Promise<{ valid: boolean; error?: string }> {
+  if (!transaction.signature || !transaction.public_key) {
+    return { valid: false, error: 'Transaction is not signed' };
+  }
+
+  const publicKey = base64ToBuffer(transaction.public_key);
+  const signature = base64ToBuffer(transaction.signature);
+  if (publicKey.length !== nacl.sign.publicKeyLength || signature.length !== nacl.sign.signatureLength) {
+    return { valid: false, error: 'Malformed public key or signature' };
+  }
+
+  // The public key must belong to the sender, otherwise anyone could sign for any address
+  const derivedAddress = await createOctraAddress(publicKey);
+  if (derivedAddress !== transaction.from) {
+    return { valid: false, error: 'Public key does not match sender address' };
+  }
+
+  const signingData = new TextEncoder().encode(getTransactionSigningData(transaction));
+  if (!nacl.sign.detached.verify(signingData, signature, publicKey)) {
+    return { valid: false, error: 'Signature verification failed' };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,121 @@
+import { DAppConnectionRequest, OriginAccessList, OriginRisk } from '../types/wallet';
+
+export const ORIGIN_ACCESS_UPDATED_EVENT = 'octra-origin-access-updated';
+export const ORIGIN_ACCESS_STORAGE_KEY = 'originAccessList';
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// Long enough that a dApp can't get away with a guessable challenge
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+// Characters commonly swapped in lookalike domains, mapped to the letter they imitate
+const CONFUSABLES: [RegExp, string][] = [
+  [/rn/g, 'm'],
+  [/vv/g, 'w'],
+  [/0/g, 'o'],
+  [/[1|]/g, 'l'],
+  [/5/g, 's'],
+  [/3/g, 'e'],
+  [/-/g, '']
+];
+
+export function getOriginAccessList(): OriginAccessList {
+  const saved = localStorage.getItem(ORIGIN_ACCESS_STORAGE_KEY);
+  return saved ? { allowed: [], blocked: [], ...JSON.parse(saved) } : { allowed: [], blocked: [] };
+}
+
+// Puts an origin on one list, taking it off the other; null removes it from both
+export function setOriginAccess(origin: string, access: 'allowed' | 'blocked' | null) {
+  const list = getOriginAccessList();
+  const updated: OriginAccessList = {
+    allowed: list.allowed.filter(o => o !== origin),
+    blocked: list.blocked.filter(o => o !== origin)
+  };
+  if (access) {
+    updated[access].push(origin);
+  }
+  localStorage.setItem(ORIGIN_ACCESS_STORAGE_KEY, JSON.stringify(updated));
+  window.dispatchEvent(new CustomEvent(ORIGIN_ACCESS_UPDATED_EVENT));
+}
+
+export function isOriginBlocked(origin: string): boolean {
+  return getOriginAccessList().blocked.includes(origin);
+}
+
+// A dApp origin must be a bare https origin; plain http is only accepted for local development
+export function validateDAppOrigin(origin: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return 'Origin is not a valid URL';
+  }
+
+  if (url.origin !== origin) {
+    return 'Origin must not contain a path, query or trailing slash';
+  }
+  if (url.protocol === 'https:') {
+    return null;
+  }
+  if (url.protocol === 'http:' && LOCAL_HOSTS.includes(url.hostname)) {
+    return null;
+  }
+  return 'Origin must use HTTPS';
+}
+
+export function validateCallbackUrl(callbackUrl: string, origin: string): string | null {
+  try {
+    return new URL(callbackUrl).origin === origin ? null : 'Callback URL does not belong to the requesting origin';
+  } catch {
+    return 'Callback URL is not a valid URL';
+  }
+}
+
+export function validateConnectionNonce(nonce: string): string | null {
+  return NONCE_PATTERN.test(nonce) ? null : 'Nonce must be 16 to 128 letters, digits, - or _';
+}
+
+export function validateConnectionRequest(request: DAppConnectionRequest): string | null {
+  return validateDAppOrigin(request.origin)
+    || (request.nonce !== undefined ? validateConnectionNonce(request.nonce) : null)
+    || (request.successUrl ? validateCallbackUrl(request.successUrl, request.origin) : null)
+    || (request.failureUrl ? validateCallbackUrl(request.failureUrl, request.origin) : null);
+}
+
+function skeleton(hostname: string): string {
+  return CONFUSABLES.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), hostname.toLowerCase());
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// Compares the origin against the sites the user already connected to and the allow list
+export function assessOriginRisk(origin: string, connectedOrigins: string[]): OriginRisk {
+  const hostname = new URL(origin).hostname;
+  const knownOrigins = [...new Set([...connectedOrigins, ...getOriginAccessList().allowed])];
+
+  const lookalikeOf = knownOrigins.find(known => {
+    if (known === origin) return false;
+    const knownHost = new URL(known).hostname;
+    if (knownHost === hostname) return false;
+    // Very short hostnames are all within a couple of edits of each other
+    return skeleton(knownHost) === skeleton(hostname) || (hostname.length > 6 && editDistance(knownHost, hostname) <= 2);
+  });
+
+  return {
+    isFirstTime: !knownOrigins.includes(origin),
+    isPunycode: hostname.split('.').some(label => label.startsWith('xn--')),
+    lookalikeOf
+  };
+}
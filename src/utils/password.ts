@@ -1,85 +1,245 @@
 import { Buffer } from 'buffer';
+import { EncryptedVault, KdfParams, WalletPassword } from '../types/wallet';
 
-export async function hashPassword(password: string, salt?: string): Promise<{ hashedPassword: string; salt: string }> {
-  const encoder = new TextEncoder();
+export const VAULT_VERSION = 2;
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256; anything weaker is treated as a downgrade
+const PBKDF2_ITERATIONS = 600_000;
+const MIN_PBKDF2_ITERATIONS = 600_000;
+
+export const DEFAULT_KDF_PARAMS: KdfParams = {
+  name: 'PBKDF2',
+  hash: 'SHA-256',
+  iterations: PBKDF2_ITERATIONS
+};
+
+function assertKdfParams(kdf: KdfParams) {
+  if (kdf.name !== 'PBKDF2' || kdf.hash !== 'SHA-256') {
+    throw new Error(`Unsupported KDF: ${kdf.name}/${kdf.hash}`);
+  }
+  if (!Number.isInteger(kdf.iterations) || kdf.iterations < MIN_PBKDF2_ITERATIONS) {
+    throw new Error('Keystore KDF parameters are weaker than allowed (downgrade rejected)');
+  }
+}
+
+async function deriveBits(password: string, salt: Uint8Array, kdf: KdfParams): Promise<ArrayBuffer> {
+  assertKdfParams(kdf);
+
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    { name: 'PBKDF2' },
+    false,
+    ['deriveBits']
+  );
+
+  return crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: kdf.hash, salt, iterations: kdf.iterations },
+    baseKey,
+    256
+  );
+}
+
+// Whether the stored keystore has already been upgraded; older formats are refused afterwards
+function isVaultUpgraded(): boolean {
+  return parseInt(localStorage.getItem('vaultVersion') || '1') >= VAULT_VERSION;
+}
+
+export async function hashPassword(password: string, salt?: string): Promise<{ hashedPassword: string; salt: string; kdf: KdfParams }> {
   const saltBytes = salt ? Buffer.from(salt, 'hex') : crypto.getRandomValues(new Uint8Array(16));
-  
-  const passwordBytes = encoder.encode(password);
+  const hashBuffer = await deriveBits(password, saltBytes, DEFAULT_KDF_PARAMS);
+
+  return {
+    hashedPassword: Buffer.from(hashBuffer).toString('hex'),
+    salt: Buffer.from(saltBytes).toString('hex'),
+    kdf: DEFAULT_KDF_PARAMS
+  };
+}
+
+// Single salted SHA-256, only used to verify passwords set before the vault upgrade
+async function hashPasswordLegacy(password: string, salt: string): Promise<string> {
+  const saltBytes = Buffer.from(salt, 'hex');
+  const passwordBytes = new TextEncoder().encode(password);
   const combined = new Uint8Array(passwordBytes.length + saltBytes.length);
   combined.set(passwordBytes);
   combined.set(saltBytes, passwordBytes.length);
-  
+
   const hashBuffer = await crypto.subtle.digest('SHA-256', combined);
-  const hashedPassword = Buffer.from(hashBuffer).toString('hex');
-  
+  return Buffer.from(hashBuffer).toString('hex');
+}
+
+export async function verifyPassword(password: string, hashedPassword: string, salt: string, kdf?: KdfParams): Promise<boolean> {
+  if (!kdf) {
+    if (isVaultUpgraded()) {
+      throw new Error('Legacy password hash rejected (downgrade detected)');
+    }
+    return (await hashPasswordLegacy(password, salt)) === hashedPassword;
+  }
+
+  const hashBuffer = await deriveBits(password, Buffer.from(salt, 'hex'), kdf);
+  return Buffer.from(hashBuffer).toString('hex') === hashedPassword;
+}
+
+export function getStoredPassword(): WalletPassword | null {
+  const hashedPassword = localStorage.getItem('walletPasswordHash');
+  const salt = localStorage.getItem('walletPasswordSalt');
+  if (!hashedPassword || !salt) {
+    return null;
+  }
+
+  const kdf = localStorage.getItem('walletPasswordKdf');
   return {
     hashedPassword,
-    salt: Buffer.from(saltBytes).toString('hex')
+    salt,
+    kdf: kdf ? JSON.parse(kdf) : undefined
+  };
+}
+
+export function storePassword(password: WalletPassword) {
+  localStorage.setItem('walletPasswordHash', password.hashedPassword);
+  localStorage.setItem('walletPasswordSalt', password.salt);
+  if (password.kdf) {
+    localStorage.setItem('walletPasswordKdf', JSON.stringify(password.kdf));
+  }
+}
+
+export async function verifyStoredPassword(password: string): Promise<boolean> {
+  const stored = getStoredPassword();
+  if (!stored) {
+    throw new Error('No password set');
+  }
+  return verifyPassword(password, stored.hashedPassword, stored.salt, stored.kdf);
+}
+
+function parseVault(encryptedData: string): EncryptedVault | null {
+  if (!encryptedData.startsWith('{')) {
+    return null;
+  }
+  const vault: EncryptedVault = JSON.parse(encryptedData);
+  if (typeof vault.version !== 'number' || !vault.kdf || !vault.salt || !vault.iv || !vault.ciphertext) {
+    throw new Error('Malformed keystore entry');
+  }
+  return vault;
+}
+
+export function isLegacyVaultData(encryptedData: string): boolean {
+  return parseVault(encryptedData) === null;
+}
+
+export async function encryptWalletData(data: string, password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    await deriveBits(password, salt, DEFAULT_KDF_PARAMS),
+    { name: 'AES-GCM' },
+    false,
+    ['encrypt']
+  );
+
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(data)
+  );
+
+  const vault: EncryptedVault = {
+    version: VAULT_VERSION,
+    kdf: DEFAULT_KDF_PARAMS,
+    salt: Buffer.from(salt).toString('hex'),
+    iv: Buffer.from(iv).toString('hex'),
+    ciphertext: Buffer.from(encrypted).toString('base64')
   };
+
+  return JSON.stringify(vault);
 }
 
-export async function verifyPassword(password: string, hashedPassword: string, salt: string): Promise<boolean> {
-  const { hashedPassword: newHash } = await hashPassword(password, salt);
-  return newHash === hashedPassword;
+// v1 entries: base64(iv || ciphertext) keyed with an unsalted SHA-256 of the password
+async function decryptLegacyWalletData(encryptedData: string, password: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password)),
+    { name: 'AES-GCM' },
+    false,
+    ['decrypt']
+  );
+
+  const combined = Buffer.from(encryptedData, 'base64');
+  const iv = combined.slice(0, 12);
+  const encrypted = combined.slice(12);
+
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    encrypted
+  );
+
+  return new TextDecoder().decode(decrypted);
 }
 
-export function encryptWalletData(data: string, password: string): Promise<string> {
-  return new Promise(async (resolve, reject) => {
-    try {
-      const encoder = new TextEncoder();
-      const key = await crypto.subtle.importKey(
-        'raw',
-        await crypto.subtle.digest('SHA-256', encoder.encode(password)),
-        { name: 'AES-GCM' },
-        false,
-        ['encrypt']
-      );
-      
-      const iv = crypto.getRandomValues(new Uint8Array(12));
-      const encrypted = await crypto.subtle.encrypt(
-        { name: 'AES-GCM', iv },
-        key,
-        encoder.encode(data)
-      );
-      
-      const combined = new Uint8Array(iv.length + encrypted.byteLength);
-      combined.set(iv);
-      combined.set(new Uint8Array(encrypted), iv.length);
-      
-      resolve(Buffer.from(combined).toString('base64'));
-    } catch (error) {
-      reject(error);
+export async function decryptWalletData(encryptedData: string, password: string): Promise<string> {
+  const vault = parseVault(encryptedData);
+
+  if (!vault) {
+    if (isVaultUpgraded()) {
+      throw new Error('Legacy keystore entry rejected (downgrade detected)');
     }
-  });
+    return decryptLegacyWalletData(encryptedData, password);
+  }
+
+  if (vault.version > VAULT_VERSION) {
+    throw new Error(`Unsupported keystore version ${vault.version}`);
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    await deriveBits(password, Buffer.from(vault.salt, 'hex'), vault.kdf),
+    { name: 'AES-GCM' },
+    false,
+    ['decrypt']
+  );
+
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: Buffer.from(vault.iv, 'hex') },
+    key,
+    Buffer.from(vault.ciphertext, 'base64')
+  );
+
+  return new TextDecoder().decode(decrypted);
 }
 
-export function decryptWalletData(encryptedData: string, password: string): Promise<string> {
-  return new Promise(async (resolve, reject) => {
-    try {
-      const encoder = new TextEncoder();
-      const decoder = new TextDecoder();
-      
-      const key = await crypto.subtle.importKey(
-        'raw',
-        await crypto.subtle.digest('SHA-256', encoder.encode(password)),
-        { name: 'AES-GCM' },
-        false,
-        ['decrypt']
-      );
-      
-      const combined = Buffer.from(encryptedData, 'base64');
-      const iv = combined.slice(0, 12);
-      const encrypted = combined.slice(12);
-      
-      const decrypted = await crypto.subtle.decrypt(
-        { name: 'AES-GCM', iv },
-        key,
-        encrypted
-      );
-      
-      resolve(decoder.decode(decrypted));
-    } catch (error) {
-      reject(error);
+// Re-encrypts legacy encryptedWallets entries and the password hash with the current KDF.
+// Must only be called after the password has been verified.
+export async function migrateVault(password: string): Promise<number> {
+  const encryptedWallets: Array<{ address: string; encryptedData: string; createdAt?: number }> =
+    JSON.parse(localStorage.getItem('encryptedWallets') || '[]');
+
+  let migrated = 0;
+  const upgradedWallets = [];
+  for (const entry of encryptedWallets) {
+    if (isLegacyVaultData(entry.encryptedData)) {
+      const plaintext = await decryptLegacyWalletData(entry.encryptedData, password);
+      upgradedWallets.push({ ...entry, encryptedData: await encryptWalletData(plaintext, password) });
+      migrated++;
+    } else {
+      upgradedWallets.push(entry);
     }
-  });
-}
\ No newline at end of file
+  }
+
+  const stored = getStoredPassword();
+  const passwordNeedsUpgrade = !stored?.kdf;
+
+  if (migrated === 0 && !passwordNeedsUpgrade && isVaultUpgraded()) {
+    return 0;
+  }
+
+  const newPassword = await hashPassword(password);
+
+  // Write everything before raising the version marker so an interrupted migration can be retried
+  localStorage.setItem('encryptedWallets', JSON.stringify(upgradedWallets));
+  storePassword(newPassword);
+  localStorage.setItem('vaultVersion', VAULT_VERSION.toString());
+
+  return migrated;
+}
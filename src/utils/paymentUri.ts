@@ -0,0 +1,108 @@
+import { PaymentRecipient, PaymentRequest } from '../types/wallet';
+import { isDomainName, isOctraAddress } from './domain';
+import { validatePayoutAmount } from './payoutFile';
+
+// octra:<address>?amount=1.5&message=INV-42&label=Shop
+// Further recipients use numbered parameters: &address.1=<address>&amount.1=2&message.1=...
+export const PAYMENT_URI_SCHEME = 'octra';
+
+// Browsers only allow registering custom schemes with the web+ prefix
+const WEB_PAYMENT_URI_SCHEME = 'web+octra';
+
+const MAX_RECIPIENTS = 100;
+
+export function isPaymentUri(input: string): boolean {
+  return /^(web\+)?octra:/i.test(input.trim());
+}
+
+function validateRecipient(recipient: PaymentRecipient, index: number) {
+  const label = index === 0 ? 'Recipient' : `Recipient ${index + 1}`;
+  if (!isOctraAddress(recipient.address) && !isDomainName(recipient.address)) {
+    throw new Error(`${label}: invalid address`);
+  }
+  if (recipient.amount !== undefined) {
+    const amountError = validatePayoutAmount(recipient.amount);
+    if (amountError) {
+      throw new Error(`${label}: ${amountError}`);
+    }
+  }
+  if (recipient.message && recipient.message.length > 1024) {
+    throw new Error(`${label}: message too long (max 1024 characters)`);
+  }
+}
+
+export function parsePaymentUri(uri: string): PaymentRequest {
+  const trimmed = uri.trim();
+  const match = /^(?:web\+)?octra:(?:\/\/)?([^?]*)(?:\?(.*))?$/i.exec(trimmed);
+  if (!match) {
+    throw new Error('Not an octra: payment link');
+  }
+
+  const params = new URLSearchParams(match[2] || '');
+  // Same rule as BIP 21: a required parameter we don't understand means we can't pay the request safely
+  for (const key of params.keys()) {
+    if (key.startsWith('req-')) {
+      throw new Error(`Unsupported required parameter: ${key}`);
+    }
+  }
+
+  const readRecipient = (address: string, suffix: string): PaymentRecipient => ({
+    address,
+    amount: params.get(`amount${suffix}`) ?? undefined,
+    message: params.get(`message${suffix}`) ?? undefined
+  });
+
+  const recipients = [readRecipient(decodeURIComponent(match[1]), '')];
+  while (params.has(`address.${recipients.length}`)) {
+    const suffix = `.${recipients.length}`;
+    recipients.push(readRecipient(params.get(`address${suffix}`)!, suffix));
+    if (recipients.length > MAX_RECIPIENTS) {
+      throw new Error(`Too many recipients (max ${MAX_RECIPIENTS})`);
+    }
+  }
+
+  recipients.forEach(validateRecipient);
+
+  return { recipients, label: params.get('label') || undefined };
+}
+
+export function buildPaymentUri(request: PaymentRequest): string {
+  if (request.recipients.length === 0) {
+    throw new Error('A payment request needs at least one recipient');
+  }
+  request.recipients.forEach(validateRecipient);
+
+  const [first, ...rest] = request.recipients;
+  const params = new URLSearchParams();
+  if (first.amount) params.set('amount', first.amount);
+  if (first.message) params.set('message', first.message);
+  if (request.label) params.set('label', request.label);
+  rest.forEach((recipient, i) => {
+    params.set(`address.${i + 1}`, recipient.address);
+    if (recipient.amount) params.set(`amount.${i + 1}`, recipient.amount);
+    if (recipient.message) params.set(`message.${i + 1}`, recipient.message);
+  });
+
+  const query = params.toString();
+  return `${PAYMENT_URI_SCHEME}:${first.address}${query ? `?${query}` : ''}`;
+}
+
+// Opening the wallet with ?pay=<uri> prefills a send, which is also where the registered handler points
+export function getPaymentUriFromUrl(search: string): string | null {
+  const pay = new URLSearchParams(search).get('pay');
+  return pay && isPaymentUri(pay) ? pay : null;
+}
+
+export function buildPaymentLink(uri: string): string {
+  return `${window.location.origin}${window.location.pathname}?pay=${encodeURIComponent(uri)}`;
+}
+
+export function registerPaymentUriHandler(): boolean {
+  if (typeof navigator.registerProtocolHandler !== 'function') return false;
+  try {
+    navigator.registerProtocolHandler(WEB_PAYMENT_URI_SCHEME, `${window.location.origin}${window.location.pathname}?pay=%s`);
+    return true;
+  } catch {
+    return false;
+  }
+}
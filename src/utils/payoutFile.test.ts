@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { findDuplicateRecipients, guessColumnMapping, mapPayoutRows, readPayoutFile } from './payoutFile';
+
+const ALICE = `oct${'A'.repeat(44)}`;
+const BOB = `oct${'B'.repeat(44)}`;
+
+describe('readPayoutFile', () => {
+  it('keeps delimiters, doubled quotes and line breaks inside quoted fields', () => {
+    const table = readPayoutFile('payout.csv', `address,amount,message\n${ALICE},1.5,"rent, march"\n${BOB},2,"say ""hi""\nthen leave"\n`);
+
+    expect(table.hasHeader).toBe(true);
+    expect(table.columns).toEqual(['address', 'amount', 'message']);
+    expect(table.rows).toEqual([
+      { row: 2, values: [ALICE, '1.5', 'rent, march'] },
+      { row: 3, values: [BOB, '2', 'say "hi"\nthen leave'] }
+    ]);
+  });
+
+  it('numbers rows by the line they start on, counting blank lines and multi-line fields', () => {
+    const table = readPayoutFile('payout.csv', `${ALICE},1,"two\nlines"\n\n${BOB},2\r\n`);
+
+    expect(table.hasHeader).toBe(false);
+    expect(table.rows.map(r => r.row)).toEqual([1, 4]);
+  });
+
+  it('rejects an unterminated quoted field with its row', () => {
+    expect(() => readPayoutFile('payout.csv', `${ALICE},1\n${BOB},2,"open`)).toThrow('Row 2: unterminated quoted field');
+  });
+
+  it('reads tab separated data saved with a .csv name', () => {
+    const table = readPayoutFile('payout.csv', `recipient\tvalue\n${ALICE}\t3\n`);
+
+    expect(table.format).toBe('tsv');
+    expect(table.rows).toEqual([{ row: 2, values: [ALICE, '3'] }]);
+  });
+
+  it('drops a byte order mark before the header', () => {
+    const table = readPayoutFile('payout.csv', `\uFEFFaddress,amount\n${ALICE},1\n`);
+
+    expect(table.columns[0]).toBe('address');
+  });
+
+  it('reads JSON objects with their keys as columns', () => {
+    const table = readPayoutFile('payout.json', JSON.stringify([{ to: ALICE, amount: 1 }, { to: BOB, amount: '2.5', memo: 'x' }]));
+
+    expect(table.columns).toEqual(['to', 'amount', 'memo']);
+    expect(table.rows).toEqual([
+      { row: 1, values: [ALICE, '1', ''] },
+      { row: 2, values: [BOB, '2.5', 'x'] }
+    ]);
+  });
+
+  it('rejects unsupported extensions', () => {
+    expect(() => readPayoutFile('payout.xlsx', '')).toThrow('Unsupported file type');
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('maps columns by header name', () => {
+    const table = readPayoutFile('payout.csv', `note,payout,wallet\nhello,1,${ALICE}\n`);
+
+    expect(guessColumnMapping(table)).toEqual({ address: 2, amount: 1, message: 0 });
+  });
+
+  it('falls back to the first row values without a header', () => {
+    const table = readPayoutFile('payout.csv', `1.25,${ALICE}\n`);
+
+    expect(guessColumnMapping(table)).toEqual({ address: 1, amount: 0, message: null });
+  });
+
+  it('reports no amount column when none is found', () => {
+    const table = readPayoutFile('payout.txt', `${ALICE}\n${BOB}\n`);
+
+    expect(guessColumnMapping(table).amount).toBeNull();
+  });
+});
+
+describe('mapPayoutRows', () => {
+  const mapping = { address: 0, amount: 1, message: null };
+
+  it('accepts up to six decimal places', () => {
+    const table = readPayoutFile('payout.csv', `${ALICE},0.000001\n${BOB},1.1234567\n`);
+
+    expect(mapPayoutRows(table, mapping).map(e => e.error)).toEqual([undefined, 'Amount has more than 6 decimal places']);
+  });
+
+  it('flags missing and invalid fields per row', () => {
+    const table = readPayoutFile('payout.csv', `${ALICE},\nnot-an-address,1\n${BOB},-1\n,2\n`);
+
+    expect(mapPayoutRows(table, mapping).map(e => [e.row, e.error])).toEqual([
+      [1, 'Amount missing'],
+      [2, 'Invalid address format'],
+      [3, 'Invalid amount'],
+      [4, 'Address missing']
+    ]);
+  });
+
+  it('uses a fixed amount in place of the amount column', () => {
+    const table = readPayoutFile('payout.txt', `${ALICE}\nname.oct\n`);
+
+    expect(mapPayoutRows(table, { address: 0, amount: null, message: null }, '2.5')).toEqual([
+      { row: 1, address: ALICE, amount: '2.5', message: undefined, error: undefined },
+      { row: 2, address: 'name.oct', amount: '2.5', message: undefined, error: undefined }
+    ]);
+  });
+});
+
+describe('findDuplicateRecipients', () => {
+  it('keys each repeat by the first row paying that recipient', () => {
+    const entries = [{ row: 2, to: ALICE }, { row: 3, to: BOB }, { row: 5, to: ALICE }, { row: 7, to: ALICE }];
+
+    expect(findDuplicateRecipients(entries, e => e.to)).toEqual(new Map([[5, 2], [7, 2]]));
+  });
+
+  it('compares domains case-insensitively but addresses exactly', () => {
+    const lower = `oct${'a'.repeat(44)}`;
+    const entries = [{ row: 1, to: 'Name.oct' }, { row: 2, to: 'name.OCT' }, { row: 3, to: ALICE }, { row: 4, to: lower }];
+
+    expect(findDuplicateRecipients(entries, e => e.to)).toEqual(new Map([[2, 1]]));
+  });
+});
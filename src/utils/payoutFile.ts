@@ -0,0 +1,233 @@
+import { PayoutColumnMapping, PayoutFileEntry, PayoutFileFormat, PayoutFileTable } from '../types/wallet';
+import { isDomainName, isOctraAddress } from './domain';
+
+export const PAYOUT_FILE_EXTENSIONS = ['.txt', '.csv', '.tsv', '.json'];
+
+const MAX_DECIMALS = 6; // amounts are sent in micro-OCT (MU_FACTOR)
+
+const ADDRESS_COLUMN = /address|recipient|wallet|domain|account|^to$/i;
+const AMOUNT_COLUMN = /amount|value|payout|oct|sum|total/i;
+const MESSAGE_COLUMN = /message|memo|note|comment|description|reference/i;
+
+function isRecipient(value: string): boolean {
+  return isOctraAddress(value) || isDomainName(value);
+}
+
+function isNumeric(value: string): boolean {
+  return /^\d+(\.\d+)?$/.test(value);
+}
+
+export function detectPayoutFileFormat(fileName: string, content: string): PayoutFileFormat | null {
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+  if (extension === '.json') return 'json';
+  if (extension === '.tsv') return 'tsv';
+  if (extension === '.csv') {
+    // Spreadsheet exports sometimes save tab separated data with a .csv name
+    const firstLine = content.split('\n', 1)[0];
+    return firstLine.includes('\t') && !firstLine.includes(',') ? 'tsv' : 'csv';
+  }
+  if (extension === '.txt') return 'txt';
+  return null;
+}
+
+// RFC 4180 style: quoted fields may contain delimiters, doubled quotes and line breaks
+function parseDelimited(content: string, delimiter: string): { row: number; values: string[] }[] {
+  const records: { row: number; values: string[] }[] = [];
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    values.push(field.trim());
+    if (values.some(v => v !== '')) {
+      records.push({ row: recordLine, values });
+    }
+    values = [];
+    field = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      values.push(field.trim());
+      field = '';
+    } else if (char === '\n') {
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Row ${recordLine}: unterminated quoted field`);
+  }
+  endRecord();
+
+  return records;
+}
+
+function parseText(content: string): { row: number; values: string[] }[] {
+  return content.split('\n')
+    .map((line, index) => ({ row: index + 1, values: line.trim().split(/[,\s]+/) }))
+    .filter(record => record.values[0] !== '');
+}
+
+function parseJson(content: string): PayoutFileTable {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (!Array.isArray(data)) {
+    throw new Error('JSON file must contain an array of recipients');
+  }
+
+  const toText = (value: unknown) => value === null || value === undefined ? '' : String(value).trim();
+
+  if (data.every(item => item !== null && typeof item === 'object' && !Array.isArray(item))) {
+    const columns: string[] = [];
+    for (const item of data as Record<string, unknown>[]) {
+      for (const key of Object.keys(item)) {
+        if (!columns.includes(key)) columns.push(key);
+      }
+    }
+    return {
+      format: 'json',
+      columns,
+      hasHeader: true,
+      rows: (data as Record<string, unknown>[]).map((item, index) => ({ row: index + 1, values: columns.map(c => toText(item[c])) }))
+    };
+  }
+
+  const rows = data.map((item, index) => {
+    if (item !== null && typeof item === 'object' && !Array.isArray(item)) {
+      throw new Error(`Row ${index + 1}: expected the same shape as the other entries`);
+    }
+    return { row: index + 1, values: Array.isArray(item) ? item.map(toText) : [toText(item)] };
+  });
+  const width = Math.max(0, ...rows.map(r => r.values.length));
+  return {
+    format: 'json',
+    columns: Array.from({ length: width }, (_, i) => `Column ${i + 1}`),
+    hasHeader: false,
+    rows
+  };
+}
+
+export function readPayoutFile(fileName: string, content: string): PayoutFileTable {
+  const format = detectPayoutFileFormat(fileName, content);
+  if (!format) {
+    throw new Error(`Unsupported file type. Use ${PAYOUT_FILE_EXTENSIONS.join(', ')}`);
+  }
+
+  // Drop the BOM some spreadsheet tools write
+  const text = content.replace(/^\uFEFF/, '');
+  if (format === 'json') {
+    return parseJson(text);
+  }
+
+  const records = format === 'txt' ? parseText(text) : parseDelimited(text, format === 'tsv' ? '\t' : ',');
+  if (records.length === 0) {
+    return { format, columns: [], hasHeader: false, rows: [] };
+  }
+
+  // A first row without any address or number is taken as the header
+  const hasHeader = !records[0].values.some(v => isRecipient(v) || isNumeric(v));
+  const width = Math.max(...records.map(r => r.values.length));
+  const columns = Array.from({ length: width }, (_, i) =>
+    hasHeader && records[0].values[i] ? records[0].values[i] : `Column ${i + 1}`
+  );
+
+  return { format, columns, hasHeader, rows: hasHeader ? records.slice(1) : records };
+}
+
+export function guessColumnMapping(table: PayoutFileTable): PayoutColumnMapping {
+  const sample = table.rows[0]?.values || [];
+  const byName = (pattern: RegExp, exclude: number[]) =>
+    table.hasHeader ? table.columns.findIndex((c, i) => !exclude.includes(i) && pattern.test(c)) : -1;
+
+  let address = byName(ADDRESS_COLUMN, []);
+  if (address === -1) address = Math.max(0, sample.findIndex(isRecipient));
+
+  let amount = byName(AMOUNT_COLUMN, [address]);
+  if (amount === -1) amount = sample.findIndex((v, i) => i !== address && isNumeric(v));
+
+  const message = byName(MESSAGE_COLUMN, [address, amount]);
+
+  return {
+    address,
+    amount: amount === -1 ? null : amount,
+    message: message === -1 ? null : message
+  };
+}
+
+export function validatePayoutAmount(amount: string): string | undefined {
+  if (!amount) return 'Amount missing';
+  if (!isNumeric(amount) || Number(amount) <= 0) return 'Invalid amount';
+  if (amount.split('.')[1]?.length > MAX_DECIMALS) return `Amount has more than ${MAX_DECIMALS} decimal places`;
+  return undefined;
+}
+
+// Applies the mapping to every row. A fixed amount replaces the amount column for same-amount payouts.
+export function mapPayoutRows(table: PayoutFileTable, mapping: PayoutColumnMapping, fixedAmount?: string): PayoutFileEntry[] {
+  return table.rows.map(({ row, values }) => {
+    const address = values[mapping.address] || '';
+    const amount = fixedAmount ?? (mapping.amount === null ? '' : values[mapping.amount] || '');
+    const message = mapping.message === null ? undefined : values[mapping.message] || undefined;
+
+    let error: string | undefined;
+    if (!address) {
+      error = 'Address missing';
+    } else if (!isRecipient(address)) {
+      error = 'Invalid address format';
+    } else {
+      error = validatePayoutAmount(amount);
+    }
+
+    return { row, address, amount, message, error };
+  });
+}
+
+// Base58 addresses are case-sensitive, so only domain names are compared case-insensitively
+function recipientKey(recipient: string): string {
+  const value = recipient.trim();
+  return isDomainName(value) ? value.toLowerCase() : value;
+}
+
+// Rows paying the same recipient more than once, keyed by the first row that pays it
+export function findDuplicateRecipients<T extends { row: number }>(entries: T[], recipientOf: (entry: T) => string): Map<number, number> {
+  const firstRow = new Map<string, number>();
+  const duplicates = new Map<number, number>();
+
+  for (const entry of entries) {
+    const key = recipientKey(recipientOf(entry));
+    if (!key) continue;
+    const first = firstRow.get(key);
+    if (first === undefined) {
+      firstRow.set(key, entry.row);
+    } else {
+      duplicates.set(entry.row, first);
+    }
+  }
+
+  return duplicates;
+}
@@ -0,0 +1,302 @@
+import { PayoutJob, PayoutRow, QueuedTransaction, Wallet } from '../types/wallet';
+import { fetchBalance, fetchSentTransfersSince } from './api';
+import { broadcastQueuedTransactions, enqueueTransactions, getQueuedTransactions, retryQueuedTransaction } from './txQueue';
+
+export const PAYOUT_JOBS_UPDATED_EVENT = 'octra-payout-jobs-updated';
+export const PAYOUT_JOBS_STORAGE_KEY = 'payoutJobs';
+
+const CHECKPOINT_SIZE = 25; // rows signed and persisted per step
+const HEARTBEAT_STALE_MS = 30000;
+
+// Jobs this tab is running right now
+const runningJobs = new Set<string>();
+
+function readJobs(): PayoutJob[] {
+  return JSON.parse(localStorage.getItem(PAYOUT_JOBS_STORAGE_KEY) || '[]');
+}
+
+function writeJobs(jobs: PayoutJob[]) {
+  localStorage.setItem(PAYOUT_JOBS_STORAGE_KEY, JSON.stringify(jobs));
+  window.dispatchEvent(new CustomEvent(PAYOUT_JOBS_UPDATED_EVENT));
+}
+
+function saveJob(job: PayoutJob): PayoutJob {
+  const now = Date.now();
+  const saved = { ...job, updatedAt: now, heartbeatAt: job.status === 'running' ? now : job.heartbeatAt };
+  const jobs = readJobs();
+  const index = jobs.findIndex(j => j.id === job.id);
+  if (index === -1) {
+    jobs.push(saved);
+  } else {
+    jobs[index] = saved;
+  }
+  writeJobs(jobs);
+  return saved;
+}
+
+function rowReference(jobId: string, row: PayoutRow): string {
+  return `${jobId}:${row.row}`;
+}
+
+export function getPayoutJobs(address?: string): PayoutJob[] {
+  return readJobs()
+    .filter(j => !address || j.from === address)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function getPayoutJob(id: string): PayoutJob | null {
+  return readJobs().find(j => j.id === id) || null;
+}
+
+export function createPayoutJob(name: string, from: string, fileName: string, rows: Omit<PayoutRow, 'status'>[]): PayoutJob {
+  const createdAt = Date.now();
+  return saveJob({
+    id: `payout-${createdAt}`,
+    name,
+    from,
+    fileName,
+    createdAt,
+    updatedAt: createdAt,
+    status: 'ready',
+    rows: rows.map(row => ({ ...row, status: 'pending' }))
+  });
+}
+
+export function deletePayoutJob(id: string) {
+  writeJobs(readJobs().filter(j => j.id !== id));
+}
+
+export function isPayoutJobRunningHere(id: string): boolean {
+  return runningJobs.has(id);
+}
+
+// A job marked running with a fresh heartbeat belongs to another open tab
+export function isPayoutJobRunningElsewhere(job: PayoutJob): boolean {
+  return job.status === 'running' && !runningJobs.has(job.id) && Date.now() - (job.heartbeatAt ?? 0) < HEARTBEAT_STALE_MS;
+}
+
+export function countPayoutRows(job: PayoutJob) {
+  const count = (statuses: PayoutRow['status'][]) => job.rows.filter(r => statuses.includes(r.status)).length;
+  return {
+    paid: count(['sent', 'confirmed', 'already-paid']),
+    confirmed: count(['confirmed', 'already-paid']),
+    failed: count(['failed']),
+    unknown: count(['unknown']),
+    remaining: count(['pending', 'sending'])
+  };
+}
+
+// Matches rows to their queue entries through the row reference, so rows signed just before an
+// interruption are recognised even if the job itself was never checkpointed
+function latestQueueEntries(job: PayoutJob): Map<string, QueuedTransaction> {
+  const latestByReference = new Map<string, QueuedTransaction>();
+  for (const entry of getQueuedTransactions(job.from)) {
+    if (!entry.reference?.startsWith(`${job.id}:`)) continue;
+    const known = latestByReference.get(entry.reference);
+    if (!known || entry.createdAt > known.createdAt) {
+      latestByReference.set(entry.reference, entry);
+    }
+  }
+  return latestByReference;
+}
+
+function applyQueueState(job: PayoutJob): PayoutJob {
+  const latestByReference = latestQueueEntries(job);
+
+  const rows = job.rows.map((row): PayoutRow => {
+    if (row.status === 'already-paid' || row.status === 'confirmed') return row;
+
+    const entry = latestByReference.get(rowReference(job.id, row));
+    if (!entry) return row;
+    // Pending and unknown rows only adopt live entries; a failed one belongs to an earlier attempt being retried
+    if ((row.status === 'pending' || row.status === 'unknown') && (entry.status === 'failed' || entry.status === 'dropped')) return row;
+
+    const base = { ...row, nonce: entry.nonce, hash: entry.hash };
+    switch (entry.status) {
+      case 'queued':
+        return { ...base, status: 'sending' };
+      case 'pending':
+        return { ...base, status: 'sent', error: undefined };
+      case 'confirmed':
+        return { ...base, status: 'confirmed', error: undefined };
+      default:
+        return { ...base, status: 'failed', error: entry.error };
+    }
+  });
+
+  return { ...job, rows };
+}
+
+export function syncPayoutJobs(address: string) {
+  for (const job of getPayoutJobs(address)) {
+    if (runningJobs.has(job.id)) continue;
+    const synced = applyQueueState(job);
+    if (JSON.stringify(synced.rows) !== JSON.stringify(job.rows)) {
+      saveJob(synced);
+    }
+  }
+}
+
+export async function runPayoutJob(id: string, wallet: Wallet): Promise<PayoutJob | null> {
+  if (runningJobs.has(id)) return getPayoutJob(id);
+
+  const initial = getPayoutJob(id);
+  if (!initial || initial.from !== wallet.address || isPayoutJobRunningElsewhere(initial)) {
+    return initial;
+  }
+
+  runningJobs.add(id);
+  try {
+    let job = saveJob({ ...applyQueueState(initial), status: 'running' });
+
+    // Rows signed before an interruption are sent as the same transactions, never re-signed with new nonces
+    const unsent = getQueuedTransactions(job.from)
+      .filter(e => e.status === 'queued' && e.reference?.startsWith(`${id}:`))
+      .sort((a, b) => a.nonce - b.nonce);
+    if (unsent.length > 0) {
+      await broadcastQueuedTransactions(unsent);
+      job = saveJob(applyQueueState(getPayoutJob(id)!));
+    }
+
+    for (;;) {
+      const current = getPayoutJob(id);
+      if (!current || current.status !== 'running') {
+        return current;
+      }
+
+      const chunk = current.rows.filter(r => r.status === 'pending').slice(0, CHECKPOINT_SIZE);
+      if (chunk.length === 0) break;
+
+      const entries = await enqueueTransactions(
+        wallet,
+        chunk.map(row => ({ to: row.address, amount: row.amount, message: row.message, reference: rowReference(id, row) }))
+      );
+      saveJob(applyQueueState(getPayoutJob(id)!));
+
+      await broadcastQueuedTransactions(entries);
+      job = saveJob(applyQueueState(getPayoutJob(id)!));
+    }
+
+    return saveJob({ ...(getPayoutJob(id) || job), status: 'completed' });
+  } catch (error) {
+    // Leave the job resumable instead of looking like it is still running
+    const current = getPayoutJob(id);
+    if (current?.status === 'running') {
+      saveJob({ ...current, status: 'paused' });
+    }
+    throw error;
+  } finally {
+    runningJobs.delete(id);
+  }
+}
+
+export function pausePayoutJob(id: string): PayoutJob | null {
+  const job = getPayoutJob(id);
+  if (!job || job.status === 'completed') return job;
+  return saveJob({ ...job, status: 'paused' });
+}
+
+// A failed row may still have been paid, since a timed-out or failed-over broadcast can reach the node anyway.
+// Rows found in history are settled first. The rest are resent at their original nonce while it is unused, so the
+// node accepts at most one attempt, and only re-signed with a new nonce once something else has taken the old one.
+export async function retryFailedPayoutRows(id: string, wallet: Wallet): Promise<PayoutJob | null> {
+  const job = getPayoutJob(id);
+  if (!job || job.from !== wallet.address) return job;
+
+  await detectAlreadyPaidRows(id);
+  const { nonce: accountNonce } = await fetchBalance(job.from);
+
+  const current = getPayoutJob(id) || job;
+  const latestByReference = latestQueueEntries(current);
+  const resend: QueuedTransaction[] = [];
+  const rows = current.rows.map((row): PayoutRow => {
+    if (row.status !== 'failed') return row;
+
+    const entry = latestByReference.get(rowReference(id, row));
+    if (entry && entry.nonce > accountNonce) {
+      resend.push(entry);
+      return row;
+    }
+    return { ...row, status: 'pending', error: undefined };
+  });
+  saveJob({ ...current, status: 'ready', rows });
+
+  for (const entry of resend.sort((a, b) => a.nonce - b.nonce)) {
+    await retryQueuedTransaction(entry.id, wallet);
+  }
+  return saveJob(applyQueueState(getPayoutJob(id)!));
+}
+
+// Marks unpaid rows as already paid when the sender's history has a matching transfer made after the job was created.
+// If that history can't be read in full, unmatched rows become unknown instead, and are not sent until a full check clears them.
+export async function detectAlreadyPaidRows(id: string): Promise<{ matched: number; unknown: number }> {
+  const job = getPayoutJob(id);
+  if (!job) return { matched: 0, unknown: 0 };
+
+  const { transfers, complete } = await fetchSentTransfersSince(job.from, job.createdAt);
+  const historyHashes = new Set(transfers.map(tx => tx.hash));
+  const knownHashes = new Set(job.rows.map(r => r.hash).filter(Boolean));
+  const candidates = transfers.filter(tx => !knownHashes.has(tx.hash));
+
+  let matched = 0;
+  let unknown = 0;
+  const current = getPayoutJob(id) || job;
+  const rows = current.rows.map((row): PayoutRow => {
+    if (row.status !== 'pending' && row.status !== 'failed' && row.status !== 'unknown') return row;
+
+    // The row's own transaction made it after all
+    if (row.hash && historyHashes.has(row.hash)) {
+      matched++;
+      return { ...row, status: 'confirmed', error: undefined };
+    }
+
+    const index = candidates.findIndex(tx => tx.to === row.address && Math.abs(tx.amount - row.amount) < 0.000001);
+    if (index === -1) {
+      if (!complete) {
+        unknown++;
+        return { ...row, status: 'unknown', error: "Part of the history since this job started could not be checked" };
+      }
+      // Attempted rows go back to failed so a retry can reuse their nonce
+      return row.status === 'unknown' ? { ...row, status: row.nonce === undefined ? 'pending' : 'failed', error: undefined } : row;
+    }
+
+    const [tx] = candidates.splice(index, 1);
+    matched++;
+    return { ...row, status: 'already-paid', hash: tx.hash, error: undefined };
+  });
+
+  if (rows.some((row, i) => row !== current.rows[i])) {
+    saveJob({ ...current, rows });
+  }
+  return { matched, unknown };
+}
+
+function csvField(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  // Recipient and message come from the uploaded file; spreadsheets would run them as formulas
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function exportPayoutReport(job: PayoutJob, format: 'csv' | 'json'): string {
+  if (format === 'json') {
+    return JSON.stringify({
+      id: job.id,
+      name: job.name,
+      from: job.from,
+      fileName: job.fileName,
+      createdAt: new Date(job.createdAt).toISOString(),
+      exportedAt: new Date().toISOString(),
+      summary: countPayoutRows(job),
+      rows: job.rows
+    }, null, 2);
+  }
+
+  const header = 'row,recipient,address,amount,message,status,nonce,hash,error';
+  const lines = job.rows.map(row => [
+    row.row, row.recipient, row.address, row.amount.toFixed(6), row.message, row.status, row.nonce, row.hash, row.error
+  ].map(csvField).join(','));
+  return [header, ...lines].join('\n');
+}
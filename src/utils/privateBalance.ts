@@ -0,0 +1,271 @@
+import {
+  ClaimResult,
+  PreparedPrivateTransfer,
+  PrivateBalanceOperation,
+  PrivateBalanceOperationKind,
+  PrivateBalanceState,
+  PrivateTransferResult,
+  Wallet
+} from '../types/wallet';
+import {
+  claimPrivateTransfer,
+  decryptBalance,
+  encryptBalance,
+  fetchEncryptedBalance,
+  getPendingPrivateTransfers,
+  preparePrivateTransfer,
+  readPendingTransferAmount,
+  submitPrivateTransfer,
+  upgradeEncryptedBalance
+} from './api';
+
+export const PRIVATE_BALANCE_UPDATED_EVENT = 'octra-private-balance-updated';
+export const PRIVATE_BALANCE_STORAGE_KEY = 'privateBalanceOperations';
+
+const MU_FACTOR = 1_000_000;
+const PENDING_TIMEOUT_MS = 10 * 60 * 1000; // an operation the chain still doesn't reflect by then was not applied
+const SETTLED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const localLocks = new Map<string, Promise<unknown>>();
+
+type OperationResult = { success: boolean; tx_hash?: string; error?: string };
+
+function readOperations(): PrivateBalanceOperation[] {
+  return JSON.parse(localStorage.getItem(PRIVATE_BALANCE_STORAGE_KEY) || '[]');
+}
+
+function writeOperations(operations: PrivateBalanceOperation[]) {
+  localStorage.setItem(PRIVATE_BALANCE_STORAGE_KEY, JSON.stringify(operations));
+  window.dispatchEvent(new CustomEvent(PRIVATE_BALANCE_UPDATED_EVENT));
+}
+
+// One private balance change at a time per address, across tabs (Web Locks) and within this tab
+async function withPrivateBalanceLock<T>(address: string, fn: () => Promise<T>): Promise<T> {
+  const name = `octra-private-balance-${address}`;
+  if (navigator.locks) {
+    return navigator.locks.request(name, fn);
+  }
+
+  const previous = localLocks.get(name) ?? Promise.resolve();
+  const result = previous.then(fn, fn);
+  localLocks.set(name, result.catch(() => undefined));
+  return result;
+}
+
+export function getPrivateBalanceOperations(address?: string): PrivateBalanceOperation[] {
+  return readOperations()
+    .filter(o => !address || o.address === address)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Pending operations form a chain (each one's base is the previous one's expected result), so the
+// chain's current value says how far along it the node has got, or that it went somewhere else entirely
+async function reconcile(wallet: Wallet): Promise<PrivateBalanceState | null> {
+  const chain = await fetchEncryptedBalance(wallet.address, wallet.privateKey);
+  if (!chain) return null;
+
+  const operations = readOperations();
+  const pending = operations
+    .filter(o => o.address === wallet.address && o.status === 'pending')
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  if (chain.error) {
+    return { ...chain, chain_raw: 0, pending_raw: 0, pending_count: pending.length, diverged: false };
+  }
+
+  const chainRaw = chain.encrypted_raw;
+  const now = Date.now();
+  const updates = new Map<string, Partial<PrivateBalanceOperation>>();
+  let remaining = pending;
+  let diverged = false;
+
+  if (pending.length > 0) {
+    const landed = pending.map(o => o.expectedRaw).lastIndexOf(chainRaw);
+    if (landed !== -1) {
+      pending.slice(0, landed + 1).forEach(o => updates.set(o.id, { status: 'confirmed', settledAt: now }));
+      remaining = pending.slice(landed + 1);
+    } else if (chainRaw !== pending[0].baseRaw) {
+      // Rebase on whatever the chain holds; building on the expected value would compound the error
+      diverged = true;
+      pending.forEach(o => updates.set(o.id, {
+        status: 'diverged',
+        error: `Chain balance is ${(chainRaw / MU_FACTOR).toFixed(6)} OCT, expected ${(o.expectedRaw / MU_FACTOR).toFixed(6)} OCT`,
+        settledAt: now
+      }));
+      remaining = [];
+    }
+
+    // Later operations were built on the stuck one, so they go with it
+    if (remaining.length > 0 && now - remaining[0].createdAt > PENDING_TIMEOUT_MS) {
+      remaining.forEach(o => updates.set(o.id, { status: 'failed', error: 'Not applied by the node', settledAt: now }));
+      remaining = [];
+    }
+  }
+
+  const kept = operations
+    .map(o => updates.has(o.id) ? { ...o, ...updates.get(o.id) } : o)
+    .filter(o => o.status === 'pending' || now - (o.settledAt ?? o.createdAt) < SETTLED_RETENTION_MS);
+  if (updates.size > 0 || kept.length !== operations.length) {
+    writeOperations(kept);
+  }
+
+  const pendingRaw = remaining.reduce((sum, o) => sum + o.delta, 0);
+  const availableRaw = chainRaw + pendingRaw;
+  return {
+    ...chain,
+    encrypted: availableRaw / MU_FACTOR,
+    encrypted_raw: availableRaw,
+    total: (chain.public_raw + availableRaw) / MU_FACTOR,
+    chain_raw: chainRaw,
+    pending_raw: pendingRaw,
+    pending_count: remaining.length,
+    diverged
+  };
+}
+
+// New ciphertexts are built on the current balance, so it must be one decrypted here rather than the node's word
+function getOperationError(state: PrivateBalanceState): string | undefined {
+  if (state.error) return state.error;
+  if (state.verification !== 'verified' && state.verification !== 'mismatch') {
+    return "The node didn't send your encrypted balance, so it can't be verified";
+  }
+  return undefined;
+}
+
+export async function getPrivateBalance(wallet: Wallet): Promise<PrivateBalanceState | null> {
+  return withPrivateBalanceLock(wallet.address, () => reconcile(wallet));
+}
+
+async function runOperation<T extends OperationResult>(
+  wallet: Wallet,
+  kind: PrivateBalanceOperationKind,
+  delta: number,
+  submit: (state: PrivateBalanceState) => Promise<T>
+): Promise<T | { success: false; error: string }> {
+  return withPrivateBalanceLock(wallet.address, async () => {
+    const state = await reconcile(wallet);
+    if (!state) {
+      return { success: false as const, error: "Cannot get balance" };
+    }
+    const error = getOperationError(state);
+    if (error) {
+      return { success: false as const, error };
+    }
+    if (state.encrypted_raw + delta < 0) {
+      return { success: false as const, error: "Insufficient encrypted balance" };
+    }
+
+    const result = await submit(state);
+    if (result.success) {
+      const createdAt = Date.now();
+      writeOperations([...readOperations(), {
+        id: `${wallet.address}-${kind}-${createdAt}`,
+        address: wallet.address,
+        kind,
+        delta,
+        baseRaw: state.encrypted_raw,
+        expectedRaw: state.encrypted_raw + delta,
+        status: 'pending',
+        txHash: result.tx_hash,
+        createdAt
+      }]);
+    }
+    return result;
+  });
+}
+
+export async function encryptPrivateBalance(wallet: Wallet, amount: number): Promise<OperationResult> {
+  return runOperation(wallet, 'encrypt', Math.floor(amount * MU_FACTOR), state =>
+    encryptBalance(wallet.address, amount, wallet.privateKey, state.encrypted_raw)
+  );
+}
+
+export async function decryptPrivateBalance(wallet: Wallet, amount: number): Promise<OperationResult> {
+  return runOperation(wallet, 'decrypt', -Math.floor(amount * MU_FACTOR), state =>
+    decryptBalance(wallet.address, amount, wallet.privateKey, state.encrypted_raw)
+  );
+}
+
+// Re-encrypts an unchanged v1 balance as v2
+export async function upgradePrivateBalance(wallet: Wallet): Promise<OperationResult> {
+  return runOperation(wallet, 'upgrade', 0, async state => {
+    if (state.format !== 'v1') {
+      return { success: false, error: "Encrypted balance is already up to date" };
+    }
+    if (state.pending_count > 0) {
+      return { success: false, error: "A pending update will already store your balance in the new format" };
+    }
+    return upgradeEncryptedBalance(wallet.address, wallet.privateKey, state.encrypted_raw);
+  });
+}
+
+export async function preparePrivateSend(
+  wallet: Wallet,
+  toAddress: string,
+  amount: number
+): Promise<{ prepared: PreparedPrivateTransfer; error?: undefined } | { prepared?: undefined; error: string }> {
+  const state = await getPrivateBalance(wallet);
+  if (!state) {
+    return { error: "Cannot get balance" };
+  }
+  const stateError = getOperationError(state);
+  if (stateError) {
+    return { error: stateError };
+  }
+
+  const { payload, error } = await preparePrivateTransfer(wallet.address, toAddress, amount, wallet.privateKey, state.encrypted_raw);
+  return payload ? { prepared: { payload, baseRaw: state.encrypted_raw } } : { error };
+}
+
+export async function submitPrivateSend(wallet: Wallet, prepared: PreparedPrivateTransfer): Promise<PrivateTransferResult> {
+  return runOperation(wallet, 'send', -parseInt(prepared.payload.amount), async state => {
+    if (state.encrypted_raw !== prepared.baseRaw) {
+      return { success: false, error: "Your private balance changed since this transfer was prepared. Review it again." };
+    }
+    return submitPrivateTransfer(prepared.payload, wallet.privateKey);
+  });
+}
+
+// Each transfer is encrypted and submitted under the lock against the balance the previous one left,
+// so nothing else can change the private balance between the two steps
+export async function sendPrivateBatch(
+  wallet: Wallet,
+  transfers: { to: string; amount: number }[],
+  onResult?: (index: number, result: PrivateTransferResult) => void
+): Promise<PrivateTransferResult[]> {
+  const results: PrivateTransferResult[] = [];
+
+  for (let i = 0; i < transfers.length; i++) {
+    const { to, amount } = transfers[i];
+    const result = await runOperation(wallet, 'send', -Math.floor(amount * MU_FACTOR), async state => {
+      const { payload, error } = await preparePrivateTransfer(wallet.address, to, amount, wallet.privateKey, state.encrypted_raw);
+      return payload ? submitPrivateTransfer(payload, wallet.privateKey) : { success: false, error };
+    });
+    results.push(result);
+    onResult?.(i, result);
+  }
+
+  return results;
+}
+
+export async function claimIncomingTransfer(wallet: Wallet, transferId: string): Promise<ClaimResult> {
+  const transfers = await getPendingPrivateTransfers(wallet.address, wallet.privateKey);
+  const transfer = transfers.find(t => String(t.id) === String(transferId));
+  if (!transfer) {
+    return { success: false, error: "Transfer not found" };
+  }
+
+  const amountRaw = await readPendingTransferAmount(transfer, wallet.privateKey);
+  if (amountRaw === null) {
+    return { success: false, error: "Cannot decrypt transfer amount" };
+  }
+
+  return claimDecryptedTransfer(wallet, transferId, amountRaw);
+}
+
+// For callers that already decrypted the amount, like the claim inbox
+export async function claimDecryptedTransfer(wallet: Wallet, transferId: string, amountRaw: number): Promise<ClaimResult> {
+  return runOperation(wallet, 'claim', amountRaw, state =>
+    claimPrivateTransfer(wallet.address, wallet.privateKey, transferId, amountRaw, state.encrypted_raw)
+  );
+}
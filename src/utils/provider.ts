@@ -0,0 +1,82 @@
+import { ProviderError, ProviderEvent, ProviderMessage, ProviderRequest } from '../types/wallet';
+import { validateDAppOrigin } from './origin';
+
+export const PROVIDER_CHANNEL = 'octra-provider';
+
+export const PROVIDER_METHODS = ['connect', 'getAccounts', 'getBalance', 'signMessage', 'sendTransaction'];
+
+// Same codes as EIP-1193 so dApp developers recognise them
+export const PROVIDER_ERROR_CODES = {
+  USER_REJECTED: 4001,
+  UNAUTHORIZED: 4100,
+  UNSUPPORTED_METHOD: 4200,
+  DISCONNECTED: 4900,
+  INVALID_PARAMS: -32602,
+  INTERNAL: -32603
+};
+
+export interface ProviderContext {
+  origin: string;
+  peer: Window;
+}
+
+export function createProviderError(code: number, message: string): Error & ProviderError {
+  return Object.assign(new Error(message), { code });
+}
+
+function toProviderError(error: unknown): ProviderError {
+  if (error instanceof Error) {
+    const code = (error as Partial<ProviderError>).code;
+    return { code: typeof code === 'number' ? code : PROVIDER_ERROR_CODES.INTERNAL, message: error.message };
+  }
+  return { code: PROVIDER_ERROR_CODES.INTERNAL, message: 'Internal error' };
+}
+
+// The wallet acts as a provider when a dApp opens it with ?provider=popup&origin=<dApp origin>.
+// Only as a top-level popup: a framed wallet could have its approval screens clickjacked
+export function getProviderContext(): ProviderContext | null {
+  const params = new URLSearchParams(window.location.search);
+  const origin = params.get('origin');
+  if (params.get('provider') !== 'popup' || !origin) return null;
+
+  if (validateDAppOrigin(origin) || window.top !== window) return null;
+
+  const peer: Window | null = window.opener;
+  return peer ? { origin, peer } : null;
+}
+
+function postToPeer(context: ProviderContext, message: Omit<ProviderMessage, 'channel'>) {
+  // Never '*': responses only ever reach the origin that was checked on the way in
+  context.peer.postMessage({ channel: PROVIDER_CHANNEL, ...message }, context.origin);
+}
+
+export function emitProviderEvent(context: ProviderContext, event: ProviderEvent, data?: unknown) {
+  postToPeer(context, { event, data });
+}
+
+export function startProviderBridge(
+  context: ProviderContext,
+  handleRequest: (request: ProviderRequest) => Promise<unknown>
+): () => void {
+  const listener = (event: MessageEvent) => {
+    if (event.source !== context.peer || event.origin !== context.origin) return;
+
+    const data = event.data as ProviderMessage;
+    if (!data || data.channel !== PROVIDER_CHANNEL || typeof data.id !== 'string' || !data.method) return;
+
+    const id = data.id;
+    const request: ProviderRequest = { id, method: data.method, params: data.params };
+    const response = PROVIDER_METHODS.includes(request.method)
+      ? handleRequest(request)
+      : Promise.reject(createProviderError(PROVIDER_ERROR_CODES.UNSUPPORTED_METHOD, `Unsupported method: ${request.method}`));
+
+    response.then(
+      (result) => postToPeer(context, { id, result }),
+      (error) => postToPeer(context, { id, error: toProviderError(error) })
+    );
+  };
+
+  window.addEventListener('message', listener);
+  emitProviderEvent(context, 'ready');
+  return () => window.removeEventListener('message', listener);
+}
@@ -0,0 +1,64 @@
+import QRCode from 'qrcode';
+import jsQR from 'jsqr';
+import { PaymentRequest } from '../types/wallet';
+import { isDomainName, isOctraAddress } from './domain';
+import { isPaymentUri, parsePaymentUri } from './paymentUri';
+
+const QR_OPTIONS = { errorCorrectionLevel: 'M' as const, margin: 2 };
+
+// Large photos are scaled down before decoding; QR codes stay readable well below this
+const MAX_DECODE_SIZE = 1600;
+
+export function renderQrDataUrl(text: string, width = 320): Promise<string> {
+  return QRCode.toDataURL(text, { ...QR_OPTIONS, width });
+}
+
+export function renderQrSvg(text: string): Promise<string> {
+  return QRCode.toString(text, { ...QR_OPTIONS, type: 'svg' });
+}
+
+// Decoded entirely in the browser; the image never leaves the device
+export async function decodeQrFromImage(image: Blob): Promise<string> {
+  if (!image.type.startsWith('image/')) {
+    throw new Error('Not an image file');
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(image);
+  } catch {
+    throw new Error('Unable to read image');
+  }
+
+  const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Unable to read image');
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const { data, width, height } = context.getImageData(0, 0, canvas.width, canvas.height);
+  const code = jsQR(data, width, height, { inversionAttempts: 'attemptBoth' });
+  if (!code || !code.data) {
+    throw new Error('No QR code found in image');
+  }
+  return code.data;
+}
+
+// A scanned code is either a bare address or name, or a payment link carrying amount and message too
+export function readScannedRecipient(text: string): { address: string; paymentRequest?: PaymentRequest } {
+  const value = text.trim();
+  if (isPaymentUri(value)) {
+    const paymentRequest = parsePaymentUri(value);
+    return { address: paymentRequest.recipients[0].address, paymentRequest };
+  }
+  if (isOctraAddress(value) || isDomainName(value)) {
+    return { address: value };
+  }
+  throw new Error('QR code does not contain an Octra address');
+}
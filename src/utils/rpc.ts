@@ -1,44 +1,159 @@
 import { RPCProvider } from '../types/wallet';
 
+const DEFAULT_PROVIDER: RPCProvider = {
+  id: 'default',
+  name: 'Octra Network (Default)',
+  url: 'https://octra.network',
+  headers: {},
+  priority: 1,
+  isActive: true,
+  createdAt: 0
+};
+
+// Per-provider timeout before failing over to the next one
+const RPC_TIMEOUT_MS = 15000;
+
+export const RPC_PROVIDER_USED_EVENT = 'octra-rpc-provider-used';
+
+export interface RPCProviderUsage {
+  provider: RPCProvider;
+  endpoint: string;
+  failedOver: boolean;
+  timestamp: number;
+}
+
+let lastProviderUsage: RPCProviderUsage | null = null;
+
+export function getRPCProviders(): RPCProvider[] {
+  const providers: RPCProvider[] = JSON.parse(localStorage.getItem('rpcProviders') || '[]');
+
+  if (providers.length === 0) {
+    return [{ ...DEFAULT_PROVIDER, createdAt: Date.now() }];
+  }
+
+  return providers;
+}
+
 export function getActiveRPCProvider(): RPCProvider | null {
-  const providers = JSON.parse(localStorage.getItem('rpcProviders') || '[]');
+  const providers = getRPCProviders();
   const activeProvider = providers.find((p: RPCProvider) => p.isActive);
-  
+
   if (activeProvider) {
     return activeProvider;
   }
-  
+
   // Return default if no active provider
-  return {
-    id: 'default',
-    name: 'Octra Network (Default)',
-    url: 'https://octra.network',
-    headers: {},
-    priority: 1,
-    isActive: true,
-    createdAt: Date.now()
+  return { ...DEFAULT_PROVIDER, createdAt: Date.now() };
+}
+
+// Active provider first, then the rest ordered by priority (lower = higher priority)
+export function getOrderedRPCProviders(): RPCProvider[] {
+  const providers = [...getRPCProviders()].sort((a, b) => a.priority - b.priority);
+  const activeIndex = providers.findIndex(p => p.isActive);
+
+  if (activeIndex > 0) {
+    const [active] = providers.splice(activeIndex, 1);
+    providers.unshift(active);
+  }
+
+  return providers;
+}
+
+export function getLastRPCProviderUsage(): RPCProviderUsage | null {
+  return lastProviderUsage;
+}
+
+function getProviderBaseUrl(provider: RPCProvider): string {
+  // The default node is reached through the /api proxy configured in vite.config.ts to avoid CORS
+  if (provider.id === DEFAULT_PROVIDER.id && provider.url.replace(/\/+$/, '') === DEFAULT_PROVIDER.url) {
+    return '/api';
+  }
+
+  return provider.url.replace(/\/+$/, '');
+}
+
+function recordProviderUsage(provider: RPCProvider, endpoint: string, failedOver: boolean) {
+  lastProviderUsage = {
+    provider,
+    endpoint,
+    failedOver,
+    timestamp: Date.now()
   };
+
+  window.dispatchEvent(new CustomEvent<RPCProviderUsage>(RPC_PROVIDER_USED_EVENT, {
+    detail: lastProviderUsage
+  }));
+}
+
+async function fetchWithTimeout(url: string, options: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  // Respect an abort signal supplied by the caller as well as our own timeout
+  const externalSignal = options.signal;
+  const onExternalAbort = () => controller.abort();
+  externalSignal?.addEventListener('abort', onExternalAbort);
+
+  try {
+    return await fetch(url, {
+      ...options,
+      signal: controller.signal
+    });
+  } finally {
+    clearTimeout(timer);
+    externalSignal?.removeEventListener('abort', onExternalAbort);
+  }
 }
 
-export async function makeRPCRequest(endpoint: string, options: RequestInit = {}): Promise<Response> {
-  const provider = getActiveRPCProvider();
-  
-  if (!provider) {
+// Without failover the request goes to the active provider only. Use it for anything that must not reach a
+// second node after a timeout: writes the first node may already have accepted, or requests carrying secrets.
+export async function makeRPCRequest(endpoint: string, options: RequestInit = {}, { failover = true }: { failover?: boolean } = {}): Promise<Response> {
+  const ordered = getOrderedRPCProviders();
+  const providers = failover ? ordered : ordered.slice(0, 1);
+
+  if (providers.length === 0) {
     throw new Error('No RPC provider available');
   }
-  
-  // Construct full URL
-  const url = `${provider.url}${endpoint}`;
-  
-  // Merge headers
-  const headers = {
-    'Content-Type': 'application/json',
-    ...provider.headers,
-    ...options.headers
-  };
-  
-  return fetch(url, {
-    ...options,
-    headers
-  });
-}
\ No newline at end of file
+
+  let lastError: unknown = null;
+  let lastResponse: Response | null = null;
+
+  for (let i = 0; i < providers.length; i++) {
+    const provider = providers[i];
+
+    // Construct full URL
+    const url = `${getProviderBaseUrl(provider)}${endpoint}`;
+
+    // Merge headers
+    const headers = {
+      'Content-Type': 'application/json',
+      ...provider.headers,
+      ...options.headers
+    };
+
+    try {
+      const response = await fetchWithTimeout(url, { ...options, headers }, RPC_TIMEOUT_MS);
+
+      if (response.status >= 500 && i < providers.length - 1) {
+        console.warn(`RPC provider ${provider.name} returned ${response.status}, failing over`);
+        lastResponse = response;
+        continue;
+      }
+
+      recordProviderUsage(provider, endpoint, i > 0);
+      return response;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      console.warn(`RPC provider ${provider.name} unreachable, failing over:`, error);
+      lastError = error;
+    }
+  }
+
+  if (lastResponse) {
+    return lastResponse;
+  }
+
+  throw lastError instanceof Error ? lastError : new Error('All RPC providers failed');
+}
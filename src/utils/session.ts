@@ -0,0 +1,153 @@
+import { Wallet } from '../types/wallet';
+import { encryptWalletData } from './password';
+
+export type LockReason = 'manual' | 'idle' | 'hidden' | 'remote';
+
+export interface SessionSettings {
+  idleTimeoutMinutes: number; // 0 disables the idle lock
+  lockOnHide: boolean;
+}
+
+interface EncryptedWalletEntry {
+  address: string;
+  encryptedData: string;
+  createdAt: number;
+}
+
+const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  idleTimeoutMinutes: 15,
+  lockOnHide: false
+};
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+// Decrypted keys and the password live only in this module's memory, never in storage
+let sessionWallets: Wallet[] | null = null;
+let sessionPassword: string | null = null;
+
+const lockListeners = new Set<(reason: LockReason) => void>();
+
+// Locking in one tab locks every other open tab of the wallet
+const lockChannel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('octra-wallet-session') : null;
+lockChannel?.addEventListener('message', (event) => {
+  if (event.data === 'lock') {
+    clearSession('remote');
+  }
+});
+
+export function getSessionSettings(): SessionSettings {
+  const saved = localStorage.getItem('sessionSettings');
+  return saved ? { ...DEFAULT_SESSION_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SESSION_SETTINGS;
+}
+
+export function saveSessionSettings(settings: SessionSettings) {
+  localStorage.setItem('sessionSettings', JSON.stringify(settings));
+}
+
+export function isSessionActive(): boolean {
+  return sessionWallets !== null && sessionPassword !== null;
+}
+
+export function getSessionWallets(): Wallet[] {
+  return sessionWallets ? [...sessionWallets] : [];
+}
+
+function readEncryptedWallets(): EncryptedWalletEntry[] {
+  return JSON.parse(localStorage.getItem('encryptedWallets') || '[]');
+}
+
+export async function addSessionWallet(wallet: Wallet): Promise<void> {
+  if (!sessionPassword || !sessionWallets) {
+    throw new Error('Wallet is locked');
+  }
+
+  if (!sessionWallets.some(w => w.address === wallet.address)) {
+    sessionWallets = [...sessionWallets, wallet];
+  }
+
+  // Encrypt before reading the vault so concurrent adds cannot overwrite each other's entries
+  const encryptedData = await encryptWalletData(JSON.stringify(wallet), sessionPassword);
+  const existing = readEncryptedWallets();
+  if (!existing.some(e => e.address === wallet.address)) {
+    existing.push({
+      address: wallet.address,
+      encryptedData,
+      createdAt: Date.now()
+    });
+    localStorage.setItem('encryptedWallets', JSON.stringify(existing));
+  }
+}
+
+export function removeSessionWallet(address: string) {
+  const existing = readEncryptedWallets();
+  localStorage.setItem('encryptedWallets', JSON.stringify(existing.filter(e => e.address !== address)));
+
+  if (sessionWallets) {
+    sessionWallets = sessionWallets.filter(w => w.address !== address);
+  }
+}
+
+export async function startSession(wallets: Wallet[], password: string): Promise<Wallet[]> {
+  sessionPassword = password;
+  sessionWallets = [...wallets];
+
+  // Older versions kept every decrypted wallet in plaintext; fold those into the vault and wipe them
+  const legacyWallets: Wallet[] = JSON.parse(localStorage.getItem('wallets') || '[]');
+  for (const legacyWallet of legacyWallets) {
+    await addSessionWallet(legacyWallet);
+  }
+  localStorage.removeItem('wallets');
+  localStorage.removeItem('isWalletLocked');
+
+  return getSessionWallets();
+}
+
+function clearSession(reason: LockReason) {
+  if (!isSessionActive()) return;
+
+  sessionWallets = null;
+  sessionPassword = null;
+  lockListeners.forEach(listener => listener(reason));
+}
+
+export function lockSession(reason: LockReason = 'manual') {
+  clearSession(reason);
+  lockChannel?.postMessage('lock');
+}
+
+export function onSessionLock(listener: (reason: LockReason) => void): () => void {
+  lockListeners.add(listener);
+  return () => {
+    lockListeners.delete(listener);
+  };
+}
+
+// Locks after the configured idle period and, optionally, whenever the tab is hidden
+export function watchSessionActivity(): () => void {
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const resetIdleTimer = () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    // Settings are re-read so changes apply without restarting the watcher
+    const settings = getSessionSettings();
+    if (settings.idleTimeoutMinutes > 0) {
+      idleTimer = setTimeout(() => lockSession('idle'), settings.idleTimeoutMinutes * 60 * 1000);
+    }
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden' && getSessionSettings().lockOnHide) {
+      lockSession('hidden');
+    }
+  };
+
+  ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetIdleTimer, { passive: true }));
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  resetIdleTimer();
+
+  return () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetIdleTimer));
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+}
@@ -0,0 +1,262 @@
+import { QueuedTransaction, QueuedTransactionStatus, TransactionOutput, Wallet } from '../types/wallet';
+import { createTransaction, fetchBalance, fetchStagedTransactions, fetchTransactionDetails, sendTransaction } from './api';
+
+export const TX_QUEUE_UPDATED_EVENT = 'octra-tx-queue-updated';
+export const TX_QUEUE_STORAGE_KEY = 'txQueue';
+
+const POLL_INTERVAL_MS = 10000;
+const STAGING_GRACE_MS = 30000; // how long a transaction may be missing from staging before it is rebroadcast
+const QUEUED_RESUME_MS = 2 * 60 * 1000; // unsent entries older than this were abandoned by a closed tab
+const MAX_BROADCASTS = 3;
+const CONFIRMED_RETENTION_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 5;
+
+// Entries this tab is currently broadcasting, so the poller does not resend them
+const inFlight = new Set<string>();
+const localLocks = new Map<string, Promise<unknown>>();
+let isPolling = false;
+
+function readQueue(): QueuedTransaction[] {
+  return JSON.parse(localStorage.getItem(TX_QUEUE_STORAGE_KEY) || '[]');
+}
+
+function writeQueue(queue: QueuedTransaction[]) {
+  localStorage.setItem(TX_QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  window.dispatchEvent(new CustomEvent(TX_QUEUE_UPDATED_EVENT));
+}
+
+function updateEntry(id: string, changes: Partial<QueuedTransaction>): QueuedTransaction | null {
+  const queue = readQueue();
+  const index = queue.findIndex(e => e.id === id);
+  if (index === -1) return null;
+
+  queue[index] = { ...queue[index], ...changes };
+  writeQueue(queue);
+  return queue[index];
+}
+
+// Serialises nonce allocation per address across tabs (Web Locks) and, as a fallback, within this tab
+async function withAddressLock<T>(address: string, fn: () => Promise<T>): Promise<T> {
+  const name = `octra-nonce-${address}`;
+  if (navigator.locks) {
+    return navigator.locks.request(name, fn);
+  }
+
+  const previous = localLocks.get(name) ?? Promise.resolve();
+  const result = previous.then(fn, fn);
+  localLocks.set(name, result.catch(() => undefined));
+  return result;
+}
+
+function isWaiting(entry: QueuedTransaction): boolean {
+  return entry.status === 'queued' || entry.status === 'pending';
+}
+
+export function getQueuedTransactions(address?: string): QueuedTransaction[] {
+  return readQueue()
+    .filter(e => !address || e.from === address)
+    .sort((a, b) => b.nonce - a.nonce);
+}
+
+// Signs every output with consecutive nonces and persists them before anything is broadcast
+export async function enqueueTransactions(wallet: Wallet, outputs: TransactionOutput[]): Promise<QueuedTransaction[]> {
+  return withAddressLock(wallet.address, async () => {
+    const { nonce: accountNonce } = await fetchBalance(wallet.address);
+    const queue = readQueue();
+    const reservedNonces = queue.filter(e => e.from === wallet.address && isWaiting(e)).map(e => e.nonce);
+    const firstNonce = Math.max(accountNonce, ...reservedNonces) + 1;
+    const createdAt = Date.now();
+
+    const entries: QueuedTransaction[] = outputs.map((output, index) => {
+      const nonce = firstNonce + index;
+      return {
+        id: `${wallet.address}-${nonce}-${createdAt}`,
+        from: wallet.address,
+        to: output.to,
+        amount: output.amount,
+        nonce,
+        transaction: createTransaction(
+          wallet.address,
+          output.to,
+          output.amount,
+          nonce,
+          wallet.privateKey,
+          wallet.publicKey || '',
+          output.message || undefined
+        ),
+        status: 'queued',
+        createdAt,
+        broadcastCount: 0,
+        reference: output.reference
+      };
+    });
+
+    // Failed entries at or above the new nonces are superseded by this allocation
+    const remaining = queue.filter(e => !(e.from === wallet.address && !isWaiting(e) && e.status !== 'confirmed' && e.nonce >= firstNonce));
+    writeQueue([...remaining, ...entries]);
+    return entries;
+  });
+}
+
+async function broadcastEntry(entry: QueuedTransaction, failureStatus: QueuedTransactionStatus = 'failed'): Promise<QueuedTransaction> {
+  inFlight.add(entry.id);
+  try {
+    const result = await sendTransaction(entry.transaction);
+    const changes: Partial<QueuedTransaction> = result.success
+      ? { status: 'pending', hash: result.hash, error: undefined, submittedAt: Date.now(), lastSeenAt: undefined, broadcastCount: entry.broadcastCount + 1 }
+      : { status: failureStatus, error: result.error || 'Transaction failed', broadcastCount: entry.broadcastCount + 1 };
+    return updateEntry(entry.id, changes) ?? { ...entry, ...changes };
+  } finally {
+    inFlight.delete(entry.id);
+  }
+}
+
+// Broadcasts in nonce order, a few at a time like the CLI does
+export async function broadcastQueuedTransactions(
+  entries: QueuedTransaction[],
+  onProgress?: (completed: number, total: number) => void
+): Promise<QueuedTransaction[]> {
+  entries.forEach(e => inFlight.add(e.id));
+  const results: QueuedTransaction[] = [];
+
+  try {
+    for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+      const batch = entries.slice(i, i + BATCH_SIZE);
+      results.push(...await Promise.all(batch.map(entry => broadcastEntry(entry))));
+      onProgress?.(results.length, entries.length);
+
+      if (i + BATCH_SIZE < entries.length) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+    }
+  } finally {
+    entries.forEach(e => inFlight.delete(e.id));
+  }
+
+  return results;
+}
+
+export async function submitTransactions(
+  wallet: Wallet,
+  outputs: TransactionOutput[],
+  onProgress?: (completed: number, total: number) => void
+): Promise<QueuedTransaction[]> {
+  const entries = await enqueueTransactions(wallet, outputs);
+  return broadcastQueuedTransactions(entries, onProgress);
+}
+
+// Resends a failed or dropped entry. With the wallet at hand it is re-signed so the timestamp is fresh.
+export async function retryQueuedTransaction(id: string, wallet?: Wallet): Promise<QueuedTransaction | null> {
+  const entry = readQueue().find(e => e.id === id);
+  if (!entry) return null;
+
+  if (wallet && wallet.address === entry.from) {
+    const transaction = createTransaction(
+      entry.from,
+      entry.to,
+      entry.amount,
+      entry.nonce,
+      wallet.privateKey,
+      wallet.publicKey || '',
+      entry.transaction.message
+    );
+    updateEntry(id, { transaction });
+    return broadcastEntry({ ...entry, transaction });
+  }
+
+  return broadcastEntry(entry);
+}
+
+export function discardQueuedTransaction(id: string) {
+  writeQueue(readQueue().filter(e => e.id !== id));
+}
+
+// Nonces that failed or were dropped while a later nonce is still waiting; the node cannot confirm past them
+export function findNonceGaps(address: string): number[] {
+  const entries = readQueue().filter(e => e.from === address);
+  const waitingNonces = entries.filter(isWaiting).map(e => e.nonce);
+  if (waitingNonces.length === 0) return [];
+
+  const highestWaiting = Math.max(...waitingNonces);
+  const coveredNonces = new Set(entries.filter(e => e.status !== 'failed' && e.status !== 'dropped').map(e => e.nonce));
+  const gaps = entries
+    .filter(e => (e.status === 'failed' || e.status === 'dropped') && e.nonce < highestWaiting && !coveredNonces.has(e.nonce))
+    .map(e => e.nonce);
+
+  return [...new Set(gaps)].sort((a, b) => a - b);
+}
+
+async function checkPendingEntry(entry: QueuedTransaction, stagedHashes: Set<string>, now: number) {
+  if (stagedHashes.has(entry.hash!)) {
+    updateEntry(entry.id, { lastSeenAt: now });
+    return;
+  }
+
+  try {
+    await fetchTransactionDetails(entry.hash!);
+    updateEntry(entry.id, { status: 'confirmed', error: undefined });
+    return;
+  } catch {
+    // Not confirmed (yet)
+  }
+
+  if (now - (entry.lastSeenAt ?? entry.submittedAt ?? entry.createdAt) < STAGING_GRACE_MS) {
+    return;
+  }
+
+  if (entry.broadcastCount < MAX_BROADCASTS) {
+    await broadcastEntry(entry, 'dropped');
+  } else {
+    updateEntry(entry.id, { status: 'dropped', error: 'Dropped from staging without being confirmed' });
+  }
+}
+
+export async function pollTransactionQueue(): Promise<void> {
+  if (isPolling) return;
+  isPolling = true;
+
+  try {
+    const now = Date.now();
+
+    const abandoned = readQueue().filter(e => e.status === 'queued' && !inFlight.has(e.id) && now - e.createdAt > QUEUED_RESUME_MS);
+    if (abandoned.length > 0) {
+      await broadcastQueuedTransactions(abandoned.sort((a, b) => a.nonce - b.nonce));
+    }
+
+    const pending = readQueue().filter(e => e.status === 'pending' && e.hash && !inFlight.has(e.id));
+    const addresses = [...new Set(pending.map(e => e.from))];
+
+    for (const address of addresses) {
+      // Skips the address while the node or its staging area is unreachable instead of treating everything as dropped
+      let stagedHashes: Set<string>;
+      try {
+        await fetchBalance(address);
+        stagedHashes = new Set((await fetchStagedTransactions(address)).map(tx => tx.hash));
+      } catch {
+        continue;
+      }
+
+      for (const entry of pending.filter(e => e.from === address)) {
+        await checkPendingEntry(entry, stagedHashes, now);
+      }
+    }
+
+    const queue = readQueue();
+    const pruned = queue.filter(e => e.status !== 'confirmed' || now - (e.submittedAt ?? e.createdAt) < CONFIRMED_RETENTION_MS);
+    if (pruned.length !== queue.length) {
+      writeQueue(pruned);
+    }
+  } finally {
+    isPolling = false;
+  }
+}
+
+export function watchTransactionQueue(): () => void {
+  const poll = () => {
+    pollTransactionQueue().catch(error => console.error('Transaction queue poll failed:', error));
+  };
+
+  poll();
+  const interval = setInterval(poll, POLL_INTERVAL_MS);
+  return () => clearInterval(interval);
+}
@@ -1,7 +1,11 @@
 import { Wallet } from '../types/wallet';
 import { generateMnemonic, validateMnemonic, generateWalletFromMnemonic, bufferToBase64, bufferToHex, createOctraAddress } from './crypto';
+import { fetchBalance } from './api';
 import * as nacl from 'tweetnacl';
 
+// Consecutive unused accounts to check before a mnemonic scan stops
+const ACCOUNT_SCAN_GAP_LIMIT = 5;
+
 export async function generateWallet(): Promise<Wallet> {
   const mnemonic = generateMnemonic();
   const walletData = await generateWalletFromMnemonic(mnemonic);
@@ -10,7 +14,8 @@ export async function generateWallet(): Promise<Wallet> {
     address: walletData.address,
     privateKey: walletData.privateKey,
     mnemonic: walletData.mnemonic,
-    publicKey: walletData.publicKey
+    publicKey: walletData.publicKey,
+    derivationIndex: walletData.derivationIndex
   };
 }
 
@@ -55,7 +60,7 @@ export async function importWalletFromPrivateKey(privateKey: string): Promise<Wa
   }
 }
 
-export async function importWalletFromMnemonic(mnemonic: string): Promise<Wallet> {
+export async function importWalletFromMnemonic(mnemonic: string, index: number = 0): Promise<Wallet> {
   const words = mnemonic.trim().split(/\s+/);
   
   if (words.length !== 12 && words.length !== 24) {
@@ -66,16 +71,68 @@ export async function importWalletFromMnemonic(mnemonic: string): Promise<Wallet
     throw new Error('Invalid mnemonic phrase');
   }
   
-  const walletData = await generateWalletFromMnemonic(mnemonic);
+  const walletData = await generateWalletFromMnemonic(mnemonic, index);
   
   return {
     address: walletData.address,
     privateKey: walletData.privateKey,
     mnemonic: walletData.mnemonic,
-    publicKey: walletData.publicKey
+    publicKey: walletData.publicKey,
+    derivationIndex: walletData.derivationIndex
   };
 }
 
+// Derives the account after the highest index already held for this mnemonic
+export async function deriveNextAccount(mnemonic: string, existingWallets: Wallet[]): Promise<Wallet> {
+  const usedIndexes = existingWallets
+    .filter(w => w.mnemonic === mnemonic)
+    .map(w => w.derivationIndex ?? 0);
+  const nextIndex = usedIndexes.length > 0 ? Math.max(...usedIndexes) + 1 : 0;
+
+  return importWalletFromMnemonic(mnemonic, nextIndex);
+}
+
+async function isAccountUsed(address: string): Promise<boolean> {
+  try {
+    const { balance, nonce } = await fetchBalance(address);
+    return balance > 0 || nonce > 0;
+  } catch (error) {
+    // The node answers 404 for addresses it has never seen; anything else means we don't know
+    if (error instanceof Error && error.message === 'Error 404') return false;
+    throw error;
+  }
+}
+
+// Returns account 0 plus every account up to the last one with on-chain activity. If the node can't be
+// asked about an account the scan stops there, with what it found so far and the error.
+export async function scanMnemonicAccounts(
+  mnemonic: string,
+  gapLimit: number = ACCOUNT_SCAN_GAP_LIMIT
+): Promise<{ accounts: Wallet[]; scanError?: string }> {
+  const accounts: Wallet[] = [await importWalletFromMnemonic(mnemonic, 0)];
+  let lastUsedIndex = 0;
+
+  for (let index = 1; index - lastUsedIndex <= gapLimit; index++) {
+    const account = await importWalletFromMnemonic(mnemonic, index);
+    let used: boolean;
+    try {
+      used = await isAccountUsed(account.address);
+    } catch (error) {
+      return { accounts, scanError: error instanceof Error ? error.message : 'Account scan failed' };
+    }
+    if (used) {
+      // Keep unused accounts that sit between used ones so indexes stay contiguous
+      for (let gapIndex = lastUsedIndex + 1; gapIndex < index; gapIndex++) {
+        accounts.push(await importWalletFromMnemonic(mnemonic, gapIndex));
+      }
+      accounts.push(account);
+      lastUsedIndex = index;
+    }
+  }
+
+  return { accounts };
+}
+
 export function getWalletBalance(address: string): Promise<number> {
   // This would connect to the actual blockchain
   // For now, return a mock balance